@@ -0,0 +1,71 @@
+// ICE server configuration handed to clients.
+// Configured per deployment with PartyKit vars:
+//
+// - `ICE_MODE=lan` - host candidates only, clients never contact an outside server
+// - `STUN_URLS` - comma-separated STUN urls (default: Google's public STUN; empty for none)
+// - `TURN_URLS` - comma-separated TURN urls, with either
+//   - `TURN_SECRET` - shared secret for TURN REST credentials (coturn `use-auth-secret`), or
+//   - `TURN_USERNAME` / `TURN_CREDENTIAL` - static credentials
+// - `TURN_TTL_SECONDS` - lifetime of issued TURN credentials (default one day)
+
+import type { IceConfig } from "../src/lib/protocol";
+
+const DEFAULT_STUN_URLS = ["stun:stun.l.google.com:19302"];
+const DEFAULT_TURN_TTL_SECONDS = 24 * 60 * 60;
+
+function urlList(raw: unknown): string[] | null {
+  if (typeof raw !== "string") return null;
+  return raw.split(",").map(url => url.trim()).filter(Boolean);
+}
+
+/**
+ * Short-lived TURN credentials per draft-uberti-behave-turn-rest:
+ * the username carries the expiry, the password is its HMAC-SHA1 under the shared secret.
+ */
+async function turnRestCredentials(secret: string, user: string, ttlSeconds: number) {
+  const expiry = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const username = `${expiry}:${user}`;
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(username));
+  const credential = btoa(String.fromCharCode(...new Uint8Array(signature)));
+  return { username, credential, expiresAt: expiry * 1000 };
+}
+
+/**
+ * Build the ICE config for one client. `user` ends up in the TURN username,
+ * so TURN server logs can be tied back to a client id.
+ */
+export async function buildIceConfig(env: Record<string, unknown>, user: string): Promise<IceConfig> {
+  if (env.ICE_MODE === "lan") {
+    return { iceServers: [], lanOnly: true, expiresAt: null };
+  }
+
+  const iceServers: RTCIceServer[] = [];
+  const stunUrls = urlList(env.STUN_URLS) ?? DEFAULT_STUN_URLS;
+  if (stunUrls.length > 0) {
+    iceServers.push({ urls: stunUrls });
+  }
+
+  let expiresAt: number | null = null;
+  const turnUrls = urlList(env.TURN_URLS) ?? [];
+  if (turnUrls.length > 0) {
+    if (typeof env.TURN_SECRET === "string" && env.TURN_SECRET) {
+      const ttl = Number(env.TURN_TTL_SECONDS) > 0 ? Number(env.TURN_TTL_SECONDS) : DEFAULT_TURN_TTL_SECONDS;
+      const { username, credential, expiresAt: expiry } = await turnRestCredentials(env.TURN_SECRET, user, ttl);
+      iceServers.push({ urls: turnUrls, username, credential });
+      expiresAt = expiry;
+    } else if (typeof env.TURN_USERNAME === "string" && typeof env.TURN_CREDENTIAL === "string") {
+      iceServers.push({ urls: turnUrls, username: env.TURN_USERNAME, credential: env.TURN_CREDENTIAL });
+    } else {
+      console.warn("[ICE] TURN_URLS set without TURN_SECRET or TURN_USERNAME/TURN_CREDENTIAL, skipping TURN");
+    }
+  }
+
+  return { iceServers, lanOnly: false, expiresAt };
+}
@@ -0,0 +1,551 @@
+import type * as Party from "partykit/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import LoSpeakServer from "./index";
+import { MAX_SCREEN_SHARERS, PROTOCOL_VERSION, PROTOCOL_VERSION_PARAM } from "../src/lib/protocol";
+
+// Just enough of PartyKit's connection for the server: state, send and close
+class MockConnection {
+  state: unknown = null;
+  sent: Record<string, unknown>[] = [];
+  closed: { code?: number; reason?: string } | null = null;
+
+  constructor(public id: string) {}
+
+  setState(state: unknown) {
+    this.state = state;
+    return state;
+  }
+
+  send(message: string) {
+    this.sent.push(JSON.parse(message));
+  }
+
+  close(code?: number, reason?: string) {
+    this.closed = { code, reason };
+  }
+
+  errors() {
+    return this.sent.filter(message => message.type === "error");
+  }
+}
+
+class MockRoom {
+  id = "test-room";
+  env: Record<string, unknown> = {};
+  connections = new Map<string, MockConnection>();
+  data = new Map<string, unknown>();
+  alarm: number | null = null;
+  storage = {
+    get: async (key: string) => this.data.get(key),
+    put: async (key: string, value: unknown) => { this.data.set(key, structuredClone(value)); },
+    delete: async (key: string) => this.data.delete(key),
+    setAlarm: async (time: number) => { this.alarm = time; },
+    deleteAlarm: async () => { this.alarm = null; }
+  };
+
+  getConnections() {
+    return this.connections.values();
+  }
+}
+
+let room: MockRoom;
+let server: LoSpeakServer;
+
+async function openRoom(env: Record<string, unknown> = {}) {
+  room = new MockRoom();
+  room.env = env;
+  server = new LoSpeakServer(room as unknown as Party.Room);
+  await server.onStart();
+}
+
+// Connects a peer, keeping whatever the server sent it on the way in
+async function connect(id: string, params: Record<string, string> = {}): Promise<MockConnection> {
+  const conn = new MockConnection(id);
+  room.connections.set(id, conn);
+  const query = new URLSearchParams({ [PROTOCOL_VERSION_PARAM]: String(PROTOCOL_VERSION), ...params });
+  const url = `https://lospeak.test/party/${room.id}?${query}`;
+  await server.onConnect(conn as unknown as Party.Connection, { request: new Request(url) } as unknown as Party.ConnectionContext);
+  return conn;
+}
+
+async function join(id: string, params: Record<string, string> = {}): Promise<MockConnection> {
+  const conn = await connect(id, params);
+  conn.sent = [];
+  return conn;
+}
+
+// The socket drops without a goodbye
+async function drop(conn: MockConnection) {
+  room.connections.delete(conn.id);
+  await server.onClose(conn as unknown as Party.Connection);
+}
+
+async function send(conn: MockConnection, message: unknown) {
+  const raw = typeof message === "string" ? message : JSON.stringify(message);
+  await server.onMessage(raw, conn as unknown as Party.Connection);
+}
+
+function resumeParams(conn: MockConnection): Record<string, string> {
+  const { peerId, resumeToken } = conn.state as { peerId: string; resumeToken: string };
+  return { resumePeerId: peerId, resumeToken };
+}
+
+function received(conn: MockConnection, type: string) {
+  return conn.sent.filter(message => message.type === type);
+}
+
+function expectInvalid(conn: MockConnection, detail: string | RegExp) {
+  const errors = conn.errors();
+  expect(errors).toHaveLength(1);
+  expect(errors[0]).toMatchObject({ type: "error", reason: "invalid-message" });
+  expect(errors[0].detail).toMatch(detail);
+}
+
+const offer = { type: "offer", sdp: "v=0\r\n" };
+
+describe("onMessage validation", () => {
+  let alice: MockConnection;
+  let bob: MockConnection;
+
+  beforeEach(async () => {
+    await openRoom();
+    alice = await join("alice");
+    bob = await join("bob");
+    alice.sent = [];
+  });
+
+  it("rejects malformed JSON", async () => {
+    await send(alice, "{\"type\": \"offer\", ");
+    expectInvalid(alice, "malformed JSON");
+    expect(bob.sent).toHaveLength(0);
+  });
+
+  it("rejects messages without a type", async () => {
+    await send(alice, { to: "bob" });
+    expectInvalid(alice, "missing message type");
+  });
+
+  it("rejects unknown message types", async () => {
+    await send(alice, { type: "make-me-host" });
+    expectInvalid(alice, /unknown message type "make-me-host"/);
+  });
+
+  it("rejects prototype keys as message types", async () => {
+    await send(alice, { type: "constructor" });
+    expectInvalid(alice, /unknown message type/);
+  });
+
+  it("rejects missing fields", async () => {
+    await send(alice, { type: "offer", offer });
+    expectInvalid(alice, /invalid field "to" in offer/);
+    expect(bob.sent).toHaveLength(0);
+  });
+
+  it("rejects wrong-typed fields", async () => {
+    await send(alice, { type: "mute-status", muted: "yes" });
+    expectInvalid(alice, /invalid field "muted"/);
+    expect(bob.sent).toHaveLength(0);
+  });
+
+  it("rejects a session description of the wrong kind", async () => {
+    await send(alice, { type: "offer", to: "bob", offer: { type: "answer", sdp: "v=0\r\n" } });
+    expectInvalid(alice, /invalid field "offer"/);
+  });
+
+  it("rejects an oversize SDP", async () => {
+    await send(alice, { type: "offer", to: "bob", offer: { type: "offer", sdp: "a".repeat(48 * 1024 + 1) } });
+    expectInvalid(alice, /invalid field "offer"/);
+    expect(bob.sent).toHaveLength(0);
+  });
+
+  it("rejects an oversize ICE candidate", async () => {
+    await send(alice, { type: "ice-candidate", to: "bob", candidate: { candidate: "a".repeat(1025) } });
+    expectInvalid(alice, /invalid field "candidate"/);
+    expect(bob.sent).toHaveLength(0);
+  });
+
+  it("rejects a wrong-typed ICE candidate field", async () => {
+    await send(alice, { type: "ice-candidate", to: "bob", candidate: { candidate: "candidate:1", sdpMLineIndex: "0" } });
+    expectInvalid(alice, /invalid field "candidate"/);
+  });
+
+  it("strips fields outside the schema before relaying", async () => {
+    await send(alice, {
+      type: "offer",
+      to: "bob",
+      from: "carol",
+      extra: "dropped",
+      offer: { ...offer, injected: { big: true } }
+    });
+    expect(alice.errors()).toHaveLength(0);
+    expect(bob.sent).toEqual([{ type: "offer", to: "bob", offer, from: "alice" }]);
+  });
+
+  it("strips extra fields from ICE candidates", async () => {
+    const candidate = { candidate: "candidate:1 1 udp 1 10.0.0.1 5000 typ host", sdpMid: "0", sdpMLineIndex: 0 };
+    await send(alice, { type: "ice-candidate", to: "bob", candidate: { ...candidate, extra: "x" } });
+    expect(bob.sent).toEqual([{ type: "ice-candidate", to: "bob", candidate, from: "alice" }]);
+  });
+
+  it("uses the sender's id, not the claimed one, on status messages", async () => {
+    await send(alice, { type: "mute-status", peerId: "bob", muted: true });
+    expect(bob.sent).toEqual([{ type: "mute-status", peerId: "alice", muted: true }]);
+  });
+
+  it("ignores messages from connections that weren't admitted", async () => {
+    const stranger = new MockConnection("stranger");
+    await send(stranger, "not json");
+    expect(stranger.sent).toHaveLength(0);
+  });
+
+  it("disconnects senders of messages over the size cap", async () => {
+    await send(alice, "x".repeat(64 * 1024 + 1));
+    expect(alice.errors()[0]).toMatchObject({ type: "error", reason: "flooding" });
+    expect(alice.closed?.reason).toBe("flooding");
+  });
+});
+
+describe("host grace", () => {
+  let alice: MockConnection;
+  let bob: MockConnection;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    await openRoom();
+    alice = await join("alice");
+    bob = await join("bob");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("vacates the role when only dropped sessions are left to take it", async () => {
+    await send(alice, { type: "leave" });
+    room.connections.delete(alice.id);
+    vi.advanceTimersByTime(20_000);
+    await drop(bob);
+    const bobAwayUntil = Date.now() + 15_000;
+
+    // Host grace (30s) is over, bob's resume grace isn't
+    vi.advanceTimersByTime(11_000);
+    await server.onAlarm();
+    expect(server.roomState.hostAwayUntil).toBeNull();
+    expect(server.roomState.hostKey).toBeNull();
+    expect(room.alarm).toBe(bobAwayUntil);
+
+    const resumed = await join("bob-2", resumeParams(bob));
+    expect(resumed.state).toMatchObject({ peerId: "bob" });
+    expect(server.roomState.hostId).toBe("bob");
+  });
+
+  it("passes the role to the longest-present peer once the grace is over", async () => {
+    const carol = await join("carol");
+    await send(alice, { type: "leave" });
+    expect(bob.sent).toContainEqual({ type: "host", peerId: null });
+
+    vi.advanceTimersByTime(30_000);
+    await server.onAlarm();
+    expect(server.roomState.hostId).toBe("bob");
+    expect(received(bob, "host-key")).toHaveLength(1);
+    expect(carol.sent).toContainEqual({ type: "host", peerId: "bob" });
+  });
+
+  it("lets the host reclaim the role with its key within the grace", async () => {
+    const hostKey = server.roomState.hostKey!;
+    await send(alice, { type: "leave" });
+    room.connections.delete(alice.id);
+
+    vi.advanceTimersByTime(10_000);
+    await join("alice-2", { hostKey });
+    expect(server.roomState.hostId).toBe("alice-2");
+    expect(server.roomState.hostAwayUntil).toBeNull();
+    expect(bob.sent).toContainEqual({ type: "host", peerId: "alice-2" });
+  });
+
+  it("never arms the alarm for a deadline that has passed", async () => {
+    await send(alice, { type: "leave" });
+    room.connections.delete(alice.id);
+    await drop(bob);
+    vi.advanceTimersByTime(40_000);
+    await server.scheduleAlarm();
+    expect(room.alarm).toBeNull();
+  });
+});
+
+describe("rate limits", () => {
+  let alice: MockConnection;
+  let bob: MockConnection;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    await openRoom();
+    alice = await join("alice");
+    bob = await join("bob");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("drops messages over a type's burst and warns once", async () => {
+    for (let i = 0; i < 5; i++) {
+      await send(alice, { type: "rename-request", name: `Name ${i}` });
+    }
+    expect(received(bob, "rename")).toHaveLength(3);
+    expect(alice.errors()).toEqual([
+      { type: "error", reason: "rate-limited", detail: "too many \"rename-request\" messages, some were dropped" }
+    ]);
+    expect(alice.closed).toBeNull();
+  });
+
+  it("refills buckets over time", async () => {
+    for (let i = 0; i < 4; i++) {
+      await send(alice, { type: "rename-request", name: `Name ${i}` });
+    }
+    vi.advanceTimersByTime(2_000);
+    await send(alice, { type: "rename-request", name: "Later" });
+    expect(bob.sent.at(-1)).toEqual({ type: "rename", peerId: "alice", name: "Later" });
+  });
+
+  it("disconnects a connection that keeps going over the limit", async () => {
+    for (let i = 0; i < 31; i++) {
+      await send(alice, { type: "mute-status", muted: i % 2 === 0 });
+    }
+    expect(received(bob, "mute-status")).toHaveLength(10);
+    expect(alice.errors().at(-1)).toMatchObject({ type: "error", reason: "flooding" });
+    expect(alice.closed).toEqual({ code: 4008, reason: "flooding" });
+    expect(bob.sent).toContainEqual({ type: "leave", peerId: "alice" });
+  });
+
+  it("takes limits from the environment", async () => {
+    await openRoom({ SIGNAL_RATE_LIMITS: JSON.stringify({ "mute-status": { rate: 1, burst: 1 } }) });
+    alice = await join("alice");
+    bob = await join("bob");
+    await send(alice, { type: "mute-status", muted: true });
+    await send(alice, { type: "mute-status", muted: false });
+    expect(received(bob, "mute-status")).toEqual([{ type: "mute-status", peerId: "alice", muted: true }]);
+  });
+});
+
+describe("screen share queue", () => {
+  let peers: MockConnection[];
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    await openRoom();
+    peers = [];
+    for (let i = 0; i < MAX_SCREEN_SHARERS + 2; i++) peers.push(await join(`peer${i}`));
+    for (const sharer of peers.slice(0, MAX_SCREEN_SHARERS)) {
+      await send(sharer, { type: "screen-start" });
+    }
+    for (const peer of peers) peer.sent = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("refuses a share when every slot is taken", async () => {
+    const waiting = peers[MAX_SCREEN_SHARERS];
+    await send(waiting, { type: "screen-start" });
+    expect(waiting.errors()).toMatchObject([{ type: "error", reason: "screen-slots-full" }]);
+    expect(received(peers[0], "screen-start")).toHaveLength(0);
+  });
+
+  it("holds a freed slot for the front of the queue", async () => {
+    const [first, second] = peers.slice(MAX_SCREEN_SHARERS);
+    await send(first, { type: "screen-queue-join" });
+    await send(second, { type: "screen-queue-join" });
+    expect(received(first, "screen-queue")).toEqual([{ type: "screen-queue", position: 1 }]);
+    expect(received(second, "screen-queue")).toEqual([{ type: "screen-queue", position: 2 }]);
+
+    await send(peers[0], { type: "screen-stop" });
+    expect(received(first, "screen-slot")).toEqual([{ type: "screen-slot", expiresAt: Date.now() + 30_000 }]);
+    expect(received(second, "screen-queue").at(-1)).toEqual({ type: "screen-queue", position: 1 });
+
+    // The held slot isn't free for anyone else
+    await send(peers[0], { type: "screen-start" });
+    expect(peers[0].errors()).toMatchObject([{ type: "error", reason: "screen-slots-full" }]);
+
+    await send(first, { type: "screen-start" });
+    expect(first.errors()).toHaveLength(0);
+    expect(server.roomState.screenOffers).toEqual({});
+    expect(peers[1].sent).toContainEqual({ type: "screen-start", peerId: first.id });
+  });
+
+  it("passes a held slot on when it isn't taken in time", async () => {
+    const [first, second] = peers.slice(MAX_SCREEN_SHARERS);
+    await send(first, { type: "screen-queue-join" });
+    await send(second, { type: "screen-queue-join" });
+    await send(peers[0], { type: "screen-stop" });
+    expect(room.alarm).toBe(Date.now() + 30_000);
+
+    vi.advanceTimersByTime(30_000);
+    await server.onAlarm();
+    expect(received(first, "screen-queue").at(-1)).toEqual({ type: "screen-queue", position: null });
+    expect(received(second, "screen-slot")).toHaveLength(1);
+    expect(Object.keys(server.roomState.screenOffers)).toEqual([second.id]);
+  });
+
+  it("frees the slot of a sharer that leaves", async () => {
+    const waiting = peers[MAX_SCREEN_SHARERS];
+    await send(waiting, { type: "screen-queue-join" });
+    await send(peers[0], { type: "leave" });
+    expect(peers[1].sent).toContainEqual({ type: "screen-stop", peerId: peers[0].id });
+    expect(received(waiting, "screen-slot")).toHaveLength(1);
+  });
+});
+
+describe("host actions", () => {
+  let alice: MockConnection;
+  let bob: MockConnection;
+  let carol: MockConnection;
+
+  beforeEach(async () => {
+    await openRoom();
+    alice = await join("alice");
+    bob = await join("bob");
+    carol = await join("carol");
+  });
+
+  it("makes the first joiner host", () => {
+    expect(server.roomState.hostId).toBe("alice");
+  });
+
+  it("refuses host-only messages from other peers", async () => {
+    for (const message of [
+      { type: "kick", peerId: "carol" },
+      { type: "mute-all" },
+      { type: "lock-request", locked: true },
+      { type: "stop-share", peerId: "carol" },
+      { type: "transfer-host", peerId: "bob" }
+    ]) {
+      bob.sent = [];
+      await send(bob, message);
+      expect(bob.errors()).toEqual([{ type: "error", reason: "not-host" }]);
+    }
+    expect(carol.closed).toBeNull();
+    expect(received(carol, "mute-request")).toHaveLength(0);
+    expect(server.roomState.locked).toBe(false);
+    expect(server.roomState.hostId).toBe("alice");
+  });
+
+  it("kicks a peer without holding its session", async () => {
+    await send(alice, { type: "kick", peerId: "carol" });
+    expect(carol.errors()).toEqual([{ type: "error", reason: "kicked" }]);
+    expect(carol.closed).toEqual({ code: 4003, reason: "kicked" });
+    expect(bob.sent).toContainEqual({ type: "leave", peerId: "carol" });
+
+    await drop(carol);
+    expect(server.roomState.away).toEqual({});
+  });
+
+  it("asks everyone else to mute", async () => {
+    await send(alice, { type: "mute-all" });
+    expect(received(bob, "mute-request")).toEqual([{ type: "mute-request", from: "alice" }]);
+    expect(received(alice, "mute-request")).toHaveLength(0);
+  });
+
+  it("locks the room against new joiners", async () => {
+    await send(alice, { type: "lock-request", locked: true });
+    expect(received(bob, "room-locked")).toEqual([{ type: "room-locked", locked: true }]);
+
+    const dave = await join("dave");
+    expect(dave.closed).toEqual({ code: 4003, reason: "room-locked" });
+    expect(server.peers.has("dave")).toBe(false);
+  });
+
+  it("hands the role over", async () => {
+    const oldKey = server.roomState.hostKey;
+    await send(alice, { type: "transfer-host", peerId: "bob" });
+    expect(server.roomState.hostId).toBe("bob");
+    expect(received(bob, "host-key")).toEqual([{ type: "host-key", key: server.roomState.hostKey }]);
+    expect(server.roomState.hostKey).not.toBe(oldKey);
+    expect(carol.sent).toContainEqual({ type: "host", peerId: "bob" });
+
+    alice.sent = [];
+    await send(alice, { type: "kick", peerId: "carol" });
+    expect(alice.errors()).toEqual([{ type: "error", reason: "not-host" }]);
+  });
+});
+
+describe("session resumption", () => {
+  let alice: MockConnection;
+  let bob: MockConnection;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    await openRoom();
+    alice = await join("alice");
+    bob = await join("bob");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("holds a dropped session without telling the others", async () => {
+    await drop(bob);
+    expect(Object.keys(server.roomState.away)).toEqual(["bob"]);
+    expect(room.alarm).toBe(Date.now() + 15_000);
+    expect(received(alice, "leave")).toHaveLength(0);
+  });
+
+  it("resumes a session with its token", async () => {
+    await send(bob, { type: "mute-status", muted: true });
+    await drop(bob);
+    const resumed = await join("bob-2", resumeParams(bob));
+    expect(resumed.state).toEqual(bob.state);
+    expect(server.roomState.away).toEqual({});
+    expect(server.peers.get("bob")?.muted).toBe(true);
+  });
+
+  it("gives a wrong token a fresh identity", async () => {
+    await drop(bob);
+    const stranger = await join("stranger", { resumePeerId: "bob", resumeToken: "guess" });
+    expect(stranger.state).toMatchObject({ peerId: "stranger" });
+    expect(Object.keys(server.roomState.away)).toEqual(["bob"]);
+  });
+
+  it("takes over a connection that hasn't noticed the drop", async () => {
+    const resumed = await join("bob-2", resumeParams(bob));
+    expect(bob.closed).toEqual({ code: 4000, reason: "replaced" });
+    expect(bob.state).toBeNull();
+    expect(resumed.state).toMatchObject({ peerId: "bob" });
+  });
+
+  it("announces the peer as gone once the grace is over", async () => {
+    await drop(bob);
+    vi.advanceTimersByTime(15_000);
+    await server.onAlarm();
+    expect(alice.sent).toContainEqual({ type: "leave", peerId: "bob" });
+
+    const late = await join("bob-2", resumeParams(bob));
+    expect(late.state).toMatchObject({ peerId: "bob-2" });
+  });
+});
+
+describe("passphrases", () => {
+  beforeEach(async () => {
+    await openRoom();
+  });
+
+  it("tells a late creator that the room stays open", async () => {
+    await join("alice");
+    const bob = await connect("bob", { newPassphrase: "secret" });
+    expect(bob.errors()).toMatchObject([{ type: "error", reason: "passphrase-not-set" }]);
+    expect(bob.sent).toContainEqual(expect.objectContaining({ type: "welcome", passphraseProtected: false }));
+    expect(server.roomState.passphraseHash).toBeNull();
+  });
+
+  it("throttles passphrase guesses before hashing them", async () => {
+    await join("alice", { newPassphrase: "secret" });
+    for (let i = 0; i < 5; i++) {
+      const guess = await join(`guess${i}`, { passphrase: "wrong" });
+      expect(guess.closed).toEqual({ code: 4003, reason: "passphrase-invalid" });
+    }
+    const blocked = await join("blocked", { passphrase: "secret" });
+    expect(blocked.closed).toEqual({ code: 4003, reason: "passphrase-throttled" });
+  });
+});
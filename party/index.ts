@@ -1,4 +1,16 @@
 import type * as Party from "partykit/server";
+import { validateMessage } from "./schema";
+import { buildIceConfig } from "./ice";
+import { AttemptLimiter, ConnectionLimiter, loadRateLimitConfig, type RateDecision, type RateLimitConfig } from "./ratelimit";
+import { chooseParent, childrenOf, loadRelayConfig, type RelayConfig, type RelayTree } from "./relay";
+import {
+  MAX_SCREEN_SHARERS,
+  PROTOCOL_VERSION,
+  PROTOCOL_VERSION_PARAM,
+  type ErrorReason,
+  type PeerInfo,
+  type SignalMessage
+} from "../src/lib/protocol";
 
 // Elegant name generation - celestial + nature inspired
 const adjectives = [
@@ -26,182 +38,852 @@ function sanitizeName(raw: string): string {
   return name || generateName();
 }
 
-function isNameTaken(peers: Map<string, PeerInfo>, name: string, exceptId?: string): boolean {
-  name = name.toLowerCase();
-  for (const [id, p] of peers) {
-    if (id !== exceptId && p.name.toLowerCase() === name) return true;
-  }
-  return false;
-}
-
-function allocateUniqueName(peers: Map<string, PeerInfo>, base?: string): string {
+// `taken` holds lowercased names (see LoSpeakServer.takenNames)
+function allocateUniqueName(taken: Set<string>, base?: string): string {
   const tryBase = sanitizeName(base || generateName());
-  if (!isNameTaken(peers, tryBase)) return tryBase;
+  if (!taken.has(tryBase.toLowerCase())) return tryBase;
   // Append numeric suffix until free
   for (let i = 2; i < 1000; i++) {
     const candidate = `${tryBase}-${i}`;
-    if (!isNameTaken(peers, candidate)) return candidate;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
   }
   // Fallback (should never happen)
   return `${tryBase}-${Date.now() % 1000}`;
 }
 
-// Message types for signaling
-type SignalMessage =
-  | { type: "join"; peerId: string; name: string }
-  | { type: "leave"; peerId: string }
-  | { type: "peers"; peers: Array<{ id: string; name: string }> }
-  | { type: "offer"; from: string; to: string; offer: RTCSessionDescriptionInit }
-  | { type: "answer"; from: string; to: string; answer: RTCSessionDescriptionInit }
-  | { type: "ice-candidate"; from: string; to: string; candidate: RTCIceCandidateInit }
-  | { type: "mute-status"; peerId: string; muted: boolean }
-  | { type: "rename-request"; name: string }
-  | { type: "rename"; peerId: string; name: string }
-  | { type: "error"; reason: string }
-  // Camera (presence layer)
-  | { type: "camera-status"; peerId: string; enabled: boolean }
-  // Screen share
-  | { type: "screen-start"; peerId: string }
-  | { type: "screen-stop"; peerId: string }
-  | { type: "screen-subscribe"; from: string; to: string }
-  | { type: "screen-unsubscribe"; from: string; to: string }
-  | { type: "screen-offer"; from: string; to: string; offer: RTCSessionDescriptionInit }
-  | { type: "screen-answer"; from: string; to: string; answer: RTCSessionDescriptionInit }
-  | { type: "screen-ice"; from: string; to: string; candidate: RTCIceCandidateInit };
-
-interface PeerInfo {
-  id: string;
+// Client ids are generated by the browser; anything else falls back to the connection id
+function sanitizeClientId(raw: string | null): string | null {
+  return raw && /^[A-Za-z0-9_-]{8,64}$/.test(raw) ? raw : null;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+}
+
+// What other peers see instead of a client id. The id itself stays private, so
+// nobody can present someone else's and take over their reserved name.
+async function clientKeyOf(clientId: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`lospeak-client:${clientId}`));
+  return toHex(new Uint8Array(digest)).slice(0, 32);
+}
+
+// Passphrases are only kept as a PBKDF2 hash, salted per room, in room storage
+const PASSPHRASE_ITERATIONS = 100_000; // The most Cloudflare Workers allow
+
+function newPassphraseSalt(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+async function hashPassphrase(passphrase: string, salt: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(passphrase), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: encoder.encode(salt), iterations: PASSPHRASE_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+// Per-connection state, stored on the socket via `connection.setState` so it
+// survives the room hibernating between messages
+interface ConnectionState {
+  peerId: string;       // Signaling identity; kept across resumed connections
+  resumeToken: string;  // Secret that lets this client resume after a drop
+  clientId: string;     // Stable per browser, unlike the connection id; never sent to other peers
+  clientKey: string;    // Hash of the client id, shown to other peers (see clientKeyOf)
   name: string;
-  connection: Party.Connection;
+  joinedAt: number;
+  muted: boolean;
+  deafened: boolean;
+  cameraEnabled: boolean;
+  screenSharing: boolean;
+  recording: boolean;
+}
+
+// A dropped connection, held open for resumption until `until`
+interface AwaySession {
+  state: ConnectionState;
+  until: number;
+}
+
+// Room-level state, persisted in `room.storage`
+interface RoomState {
+  screenSharers: string[]; // Peer ids, in the order they started sharing
+  screenQueue: string[];   // Peer ids waiting for a share slot, first in line first
+  screenOffers: Record<string, number>;   // Peer id -> when the slot held for them passes on
+  screenRelays: Record<string, RelayTree>; // Sharer id -> who receives from whom (relaying on only)
+  passphraseHash: string | null;
+  passphraseSalt: string | null;
+  locked: boolean;
+  hostId: string | null;   // Null while the host is gone (see HOST_GRACE_MS)
+  hostKey: string | null;  // Lets the host reclaim the role from a new connection
+  hostAwayUntil: number | null;
+  reservedNames: Record<string, string>;  // Client id -> last name, held while they're away
+  away: Record<string, AwaySession>;      // Peer id -> dropped session
+}
+
+const ROOM_STATE_KEY = "room";
+
+function defaultRoomState(): RoomState {
+  return {
+    screenSharers: [],
+    screenQueue: [],
+    screenOffers: {},
+    screenRelays: {},
+    passphraseHash: null,
+    passphraseSalt: null,
+    locked: false,
+    hostId: null,
+    hostKey: null,
+    hostAwayUntil: null,
+    reservedNames: {},
+    away: {}
+  };
+}
+
+interface LivePeer extends ConnectionState {
+  id: string;
+  connection: Party.Connection<ConnectionState>;
 }
 
-// Maximum concurrent screen sharers (soft limit)
-const MAX_SCREEN_SHARERS = 4;
+// Presence snapshot sent to clients (welcome peers list)
+function presenceOf(state: ConnectionState): PeerInfo {
+  return {
+    id: state.peerId,
+    clientKey: state.clientKey,
+    name: state.name,
+    muted: state.muted,
+    deafened: state.deafened,
+    cameraEnabled: state.cameraEnabled,
+    screenSharing: state.screenSharing,
+    recording: state.recording
+  };
+}
+
+function peerIdOf(conn: Party.Connection): string | null {
+  return (conn.state as ConnectionState | null)?.peerId ?? null;
+}
+
+// How long a freed share slot is held for the peer at the front of the queue
+const SCREEN_OFFER_MS = 30_000;
+
+// How long a dropped connection can be resumed before the peer is announced as gone
+const RESUME_GRACE_MS = 15_000;
+
+// How long a departed host keeps the role before it passes to the longest-present peer
+const HOST_GRACE_MS = 30_000;
+
+// Messages only the host may send
+const HOST_ONLY: ReadonlySet<SignalMessage["type"]> = new Set([
+  "lock-request", "kick", "mute-all", "stop-share", "transfer-host"
+]);
 
 export default class LoSpeakServer implements Party.Server {
-  peers: Map<string, PeerInfo> = new Map();
-  screenSharers: Set<string> = new Set(); // Track who's sharing screen
+  roomState: RoomState = defaultRoomState();
+
+  // Flood protection, keyed by connection id
+  rateLimits: RateLimitConfig;
+  limiters = new Map<string, ConnectionLimiter>();
+  passphraseAttempts: AttemptLimiter;
+
+  // Screen share relay trees (see party/relay.ts)
+  relayConfig: RelayConfig;
+
+  constructor(public room: Party.Room) {
+    this.rateLimits = loadRateLimitConfig(room.env);
+    this.passphraseAttempts = new AttemptLimiter(this.rateLimits.passphrase);
+    this.relayConfig = loadRelayConfig(room.env);
+  }
+
+  limiterFor(conn: Party.Connection): ConnectionLimiter {
+    let limiter = this.limiters.get(conn.id);
+    if (!limiter) {
+      limiter = new ConnectionLimiter(this.rateLimits);
+      this.limiters.set(conn.id, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * Peers (keyed by peer id) are rebuilt from the live connections on every
+   * access, so nothing is lost when the room is evicted from memory and
+   * woken up again. Connections that haven't been welcomed yet (no state)
+   * are skipped.
+   */
+  get peers(): Map<string, LivePeer> {
+    const peers = new Map<string, LivePeer>();
+    for (const connection of this.room.getConnections<ConnectionState>()) {
+      if (!connection.state) continue;
+      peers.set(connection.state.peerId, { ...connection.state, id: connection.state.peerId, connection });
+    }
+    return peers;
+  }
+
+  /**
+   * Names (lowercased) unavailable to peer `peerId` of client `clientId`: those
+   * of the other live peers, plus names reserved for clients that aren't
+   * connected. A connected client's reservation is its live peer's name.
+   */
+  takenNames(peerId: string, clientId: string): Set<string> {
+    const taken = new Set<string>();
+    const connected = new Set<string>();
+    for (const peer of this.peers.values()) {
+      if (peer.id === peerId) continue;
+      taken.add(peer.name.toLowerCase());
+      connected.add(peer.clientId);
+    }
+    for (const [owner, name] of Object.entries(this.roomState.reservedNames)) {
+      if (owner !== clientId && !connected.has(owner)) taken.add(name.toLowerCase());
+    }
+    return taken;
+  }
+
+  /**
+   * Whether another live connection has this client id (a second tab of the
+   * same browser). Only one of them holds the client's name reservation.
+   */
+  clientIdInUse(clientId: string, exceptPeerId: string): boolean {
+    for (const peer of this.peers.values()) {
+      if (peer.id !== exceptPeerId && peer.clientId === clientId) return true;
+    }
+    return false;
+  }
+
+  async reserveName(clientId: string, name: string) {
+    this.roomState.reservedNames[clientId] = name;
+    await this.saveRoomState();
+  }
+
+  get screenSharers(): Set<string> {
+    return new Set(this.roomState.screenSharers);
+  }
+
+  async onStart() {
+    const stored = await this.room.storage.get<RoomState>(ROOM_STATE_KEY);
+    if (stored) {
+      this.roomState = { ...defaultRoomState(), ...stored };
+    }
+
+    // Drop sharers and queued peers whose sockets closed while we were asleep
+    const live = this.peers;
+    const present = (id: string) => live.has(id) || id in this.roomState.away;
+    const sharers = this.roomState.screenSharers.filter(id =>
+      live.get(id)?.screenSharing || this.roomState.away[id]?.state.screenSharing
+    );
+    const queue = this.roomState.screenQueue.filter(present);
+    const offers = Object.keys(this.roomState.screenOffers).filter(id => !present(id));
+    const relays = Object.keys(this.roomState.screenRelays).filter(id => !sharers.includes(id));
+    if (sharers.length !== this.roomState.screenSharers.length ||
+        queue.length !== this.roomState.screenQueue.length || offers.length > 0 || relays.length > 0) {
+      this.roomState.screenSharers = sharers;
+      this.roomState.screenQueue = queue;
+      for (const id of offers) delete this.roomState.screenOffers[id];
+      for (const id of relays) delete this.roomState.screenRelays[id];
+      await this.saveRoomState();
+    }
+  }
+
+  async saveRoomState() {
+    await this.room.storage.put(ROOM_STATE_KEY, this.roomState);
+  }
+
+  /**
+   * Point the room alarm at the next deadline (resume grace, host grace or a
+   * held share slot). Deadlines already past are left out: onAlarm deals with
+   * whatever is due, and re-arming for one would just fire the alarm again.
+   */
+  async scheduleAlarm() {
+    const now = Date.now();
+    const deadlines = Object.values(this.roomState.away).map(session => session.until);
+    if (this.roomState.hostAwayUntil) deadlines.push(this.roomState.hostAwayUntil);
+    deadlines.push(...Object.values(this.roomState.screenOffers));
+    const upcoming = deadlines.filter(deadline => deadline > now);
+    if (upcoming.length > 0) {
+      await this.room.storage.setAlarm(Math.min(...upcoming));
+    } else {
+      await this.room.storage.deleteAlarm();
+    }
+  }
+
+  /**
+   * Merge a partial update into a connection's persisted state.
+   */
+  updateConnectionState(conn: Party.Connection, update: Partial<ConnectionState>) {
+    const connection = conn as Party.Connection<ConnectionState>;
+    if (!connection.state) return;
+    connection.setState({ ...connection.state, ...update });
+  }
+
+  /**
+   * Hand the host role to a peer (or vacate it) and rotate the host key,
+   * so a previous host can no longer reclaim it.
+   */
+  async assignHost(peerId: string | null) {
+    this.roomState.hostId = peerId;
+    this.roomState.hostKey = peerId ? crypto.randomUUID() : null;
+    this.roomState.hostAwayUntil = null;
+    await this.saveRoomState();
+
+    if (peerId && this.roomState.hostKey) {
+      this.peers.get(peerId)?.connection.send(JSON.stringify({
+        type: "host-key",
+        key: this.roomState.hostKey
+      }));
+    }
+    this.broadcast(JSON.stringify({ type: "host", peerId }));
+  }
+
+  async setScreenSharing(conn: Party.Connection, sharing: boolean) {
+    const peerId = peerIdOf(conn);
+    if (!peerId) return;
+    this.updateConnectionState(conn, { screenSharing: sharing });
+    const sharers = this.roomState.screenSharers.filter(id => id !== peerId);
+    if (sharing) sharers.push(peerId);
+    this.roomState.screenSharers = sharers;
+    // Every share starts with a fresh tree
+    delete this.roomState.screenRelays[peerId];
+    await this.saveRoomState();
+  }
+
+  /**
+   * Place a viewer in a share's relay tree and ask its new upstream to send to it.
+   * A viewer that subscribes again (its connection failed or kept degrading) is
+   * moved away from its current upstream, taking its own viewers along.
+   */
+  subscribeThroughRelay(sharerId: string, viewerId: string) {
+    const tree = this.roomState.screenRelays[sharerId] ??= {};
+    const previous = tree[viewerId];
+    if (previous) {
+      delete tree[viewerId];
+      this.sendRelayRequest("screen-unsubscribe", sharerId, viewerId, previous);
+    }
+    this.attachViewer(tree, sharerId, viewerId, previous && previous !== sharerId ? [previous] : []);
+  }
+
+  attachViewer(tree: RelayTree, sharerId: string, viewerId: string, avoid: string[] = []) {
+    // Forwarders whose signaling dropped couldn't be told
+    const unreachable = [...avoid, ...Object.keys(this.roomState.away)];
+    const parentId = chooseParent(tree, sharerId, viewerId, this.relayConfig.fanout, new Set(unreachable));
+    tree[viewerId] = parentId;
+    this.sendRelayRequest("screen-subscribe", sharerId, viewerId, parentId);
+  }
+
+  /**
+   * Take a viewer out of a share's relay tree; whoever received through it is
+   * attached elsewhere. Its upstream is told unless it is gone anyway.
+   */
+  detachViewer(sharerId: string, viewerId: string, notifyUpstream: boolean) {
+    const tree = this.roomState.screenRelays[sharerId];
+    const parentId = tree?.[viewerId];
+    if (!tree || !parentId) {
+      if (notifyUpstream) this.sendRelayRequest("screen-unsubscribe", sharerId, viewerId, sharerId);
+      return;
+    }
+    delete tree[viewerId];
+    if (notifyUpstream) this.sendRelayRequest("screen-unsubscribe", sharerId, viewerId, parentId);
+    for (const orphan of childrenOf(tree, viewerId)) {
+      console.log(`[Room ${this.room.id}] Relay: moving ${orphan} off ${viewerId} for ${sharerId}'s screen`);
+      this.attachViewer(tree, sharerId, orphan);
+    }
+  }
+
+  // A subscription change for the peer that sends `viewerId` the share
+  sendRelayRequest(type: "screen-subscribe" | "screen-unsubscribe", sharerId: string, viewerId: string, upstreamId: string) {
+    this.peers.get(upstreamId)?.connection.send(JSON.stringify({
+      type,
+      from: viewerId,
+      to: upstreamId,
+      sharer: sharerId
+    }));
+  }
+
+  // Share slots in use, counting those held for peers called up from the queue
+  get screenSlotsTaken(): number {
+    return this.roomState.screenSharers.length + Object.keys(this.roomState.screenOffers).length;
+  }
+
+  sendScreenQueueStatus(peerId: string) {
+    const conn = this.peers.get(peerId)?.connection;
+    if (!conn) return;
+    const expiresAt = this.roomState.screenOffers[peerId];
+    if (expiresAt) {
+      conn.send(JSON.stringify({ type: "screen-slot", expiresAt }));
+      return;
+    }
+    const index = this.roomState.screenQueue.indexOf(peerId);
+    conn.send(JSON.stringify({ type: "screen-queue", position: index >= 0 ? index + 1 : null }));
+  }
+
+  // Hold free slots for the front of the queue; they have SCREEN_OFFER_MS to start sharing
+  async advanceScreenQueue() {
+    const queue = this.roomState.screenQueue;
+    if (queue.length === 0 || this.screenSlotsTaken >= MAX_SCREEN_SHARERS) return;
+
+    while (queue.length > 0 && this.screenSlotsTaken < MAX_SCREEN_SHARERS) {
+      const peerId = queue.shift()!;
+      this.roomState.screenOffers[peerId] = Date.now() + SCREEN_OFFER_MS;
+      this.sendScreenQueueStatus(peerId);
+    }
+    for (const peerId of queue) this.sendScreenQueueStatus(peerId);
+
+    await this.saveRoomState();
+    await this.scheduleAlarm();
+  }
+
+  // Take a peer out of line, giving up any slot held for them (callers advance the queue)
+  async leaveScreenQueue(peerId: string) {
+    const wasQueued = this.roomState.screenQueue.includes(peerId);
+    if (!wasQueued && !(peerId in this.roomState.screenOffers)) return;
+    this.roomState.screenQueue = this.roomState.screenQueue.filter(id => id !== peerId);
+    delete this.roomState.screenOffers[peerId];
+    if (wasQueued) {
+      for (const id of this.roomState.screenQueue) this.sendScreenQueueStatus(id);
+    }
+    await this.saveRoomState();
+  }
+
+  /**
+   * Check room access before a connection is admitted.
+   * The first peer into an empty room may set its passphrase; anyone else
+   * asking to set one is told the room stays open.
+   */
+  async checkAccess(conn: Party.Connection, params: URLSearchParams, client: string): Promise<ErrorReason | null> {
+    const othersPresent = this.peers.size > 0 || Object.keys(this.roomState.away).length > 0;
+    const newPassphrase = params.get("newPassphrase");
+    if (!othersPresent && !this.roomState.passphraseHash && newPassphrase) {
+      this.roomState.passphraseSalt = newPassphraseSalt();
+      this.roomState.passphraseHash = await hashPassphrase(newPassphrase, this.roomState.passphraseSalt);
+      await this.saveRoomState();
+      return null;
+    }
+
+    // A returning host gets past the lock
+    const isReturningHost = !!this.roomState.hostKey && params.get("hostKey") === this.roomState.hostKey;
+    if (this.roomState.locked && !isReturningHost) return "room-locked";
+
+    if (this.roomState.passphraseHash) {
+      const passphrase = params.get("passphrase");
+      if (!passphrase) return "passphrase-required";
+      if (!this.passphraseAttempts.admit(client)) return "passphrase-throttled";
+      const salt = this.roomState.passphraseSalt ?? "";
+      if (await hashPassphrase(passphrase, salt) !== this.roomState.passphraseHash) {
+        return "passphrase-invalid";
+      }
+    } else if (newPassphrase) {
+      conn.send(JSON.stringify({
+        type: "error",
+        reason: "passphrase-not-set",
+        detail: "the room already has people in it, so it stays open"
+      }));
+    }
+    return null;
+  }
+
+  /**
+   * Resume a dropped (or still half-open) session if the client presents
+   * its peer id and resume token. Returns the restored state, or null.
+   */
+  async tryResume(params: URLSearchParams): Promise<ConnectionState | null> {
+    const peerId = params.get("resumePeerId");
+    const token = params.get("resumeToken");
+    if (!peerId || !token) return null;
+
+    const session = this.roomState.away[peerId];
+    if (session && session.state.resumeToken === token) {
+      delete this.roomState.away[peerId];
+      await this.saveRoomState();
+      await this.scheduleAlarm();
+      return session.state;
+    }
+
+    // The old socket may not have noticed the drop yet; take it over
+    const live = this.peers.get(peerId);
+    if (live && live.resumeToken === token) {
+      const { connection, id, ...state } = live;
+      connection.setState(null);
+      connection.close(4000, "replaced");
+      return state;
+    }
+    return null;
+  }
+
+  // ICE config for a peer in this room (see party/ice.ts). The app is usually
+  // served from another origin, hence the CORS header.
+  async onRequest(req: Party.Request) {
+    const headers = {
+      "Access-Control-Allow-Origin": "*",
+      "Cache-Control": "no-store"
+    };
+    if (req.method !== "GET") {
+      return new Response("Method not allowed", { status: 405, headers });
+    }
+
+    const params = new URL(req.url).searchParams;
+    const peer = this.peers.get(params.get("peerId") ?? "");
+    if (!peer || peer.resumeToken !== params.get("resumeToken")) {
+      return new Response("Not a member of this room", { status: 403, headers });
+    }
+
+    const config = await buildIceConfig(this.room.env, peer.clientId);
+    return new Response(JSON.stringify(config), {
+      headers: { ...headers, "Content-Type": "application/json" }
+    });
+  }
+
+  async onConnect(conn: Party.Connection, ctx: Party.ConnectionContext) {
+    const params = new URL(ctx.request.url).searchParams;
+
+    // Clients from an older or newer deploy would silently misbehave
+    const version = Number(params.get(PROTOCOL_VERSION_PARAM));
+    if (version !== PROTOCOL_VERSION) {
+      conn.send(JSON.stringify({
+        type: "error",
+        reason: "protocol-mismatch",
+        detail: `server speaks protocol ${PROTOCOL_VERSION}, client sent ${params.get(PROTOCOL_VERSION_PARAM) ?? "none"}`
+      }));
+      conn.close(4003, "protocol-mismatch");
+      return;
+    }
+
+    const resumed = await this.tryResume(params);
+    if (resumed) {
+      conn.setState(resumed);
+      // The host's grace ran out while nobody was connected to take over
+      const becomesHost = !this.roomState.hostId && !this.roomState.hostAwayUntil;
+      this.welcome(conn, resumed, true, becomesHost ? resumed.peerId : this.roomState.hostId);
+      if (becomesHost) await this.assignHost(resumed.peerId);
+      // Messages sent while they were away were lost
+      if (this.roomState.screenQueue.includes(resumed.peerId) || resumed.peerId in this.roomState.screenOffers) {
+        this.sendScreenQueueStatus(resumed.peerId);
+      }
+      return;
+    }
 
-  constructor(public room: Party.Room) {}
+    // Behind Cloudflare every request carries the client's IP; without one
+    // (local dev) all clients share a single passphrase attempt budget
+    const client = ctx.request.headers.get("cf-connecting-ip") ?? "unknown";
+    const rejection = await this.checkAccess(conn, params, client);
+    if (rejection) {
+      conn.send(JSON.stringify({ type: "error", reason: rejection }));
+      conn.close(4003, rejection);
+      return;
+    }
 
-  onConnect(conn: Party.Connection, ctx: Party.ConnectionContext) {
+    // Returning clients get their previous name back if it's still free;
+    // another tab of a browser that is already here gets a name of its own
     const peerId = conn.id;
-    const name = allocateUniqueName(this.peers);
+    const clientId = sanitizeClientId(params.get("clientId")) ?? peerId;
+    const ownsReservation = !this.clientIdInUse(clientId, peerId);
+    const reserved = ownsReservation ? this.roomState.reservedNames[clientId] : undefined;
+    const name = allocateUniqueName(this.takenNames(peerId, clientId), reserved);
+    if (ownsReservation) await this.reserveName(clientId, name);
+    
+    // Store peer info on the connection itself
+    const state: ConnectionState = {
+      peerId,
+      resumeToken: crypto.randomUUID(),
+      clientId,
+      clientKey: await clientKeyOf(clientId),
+      name,
+      joinedAt: Date.now(),
+      muted: false,
+      deafened: false,
+      cameraEnabled: false,
+      screenSharing: false,
+      recording: false
+    };
+    conn.setState(state);
+
+    // The first joiner becomes host; a host key reclaims the role after a reconnect
+    const hostKey = params.get("hostKey");
+    const claimsHost = !!hostKey && hostKey === this.roomState.hostKey;
+    const becomesHost = claimsHost || (!this.roomState.hostId && this.peers.size === 1);
+    if (claimsHost) {
+      this.roomState.hostId = peerId;
+      this.roomState.hostAwayUntil = null;
+      await this.saveRoomState();
+      await this.scheduleAlarm();
+    }
     
-    // Store peer info
-    this.peers.set(peerId, { id: peerId, name, connection: conn });
+    this.welcome(conn, state, false, becomesHost ? peerId : this.roomState.hostId);
 
-    // Send the new peer their assigned name and existing peers (including screen share status)
+    if (claimsHost) {
+      this.broadcast(JSON.stringify({ type: "host", peerId }), [peerId]);
+    } else if (becomesHost) {
+      await this.assignHost(peerId);
+    }
+  }
+
+  /**
+   * Send the welcome (assigned name, resume token and a full presence
+   * snapshot of existing peers) and announce the peer to everyone else.
+   * Peers that already know a resumed peer ignore the repeated join.
+   */
+  welcome(conn: Party.Connection, state: ConnectionState, resumed: boolean, hostId = this.roomState.hostId) {
     const existingPeers = Array.from(this.peers.values())
-      .filter(p => p.id !== peerId)
-      .map(p => ({ 
-        id: p.id, 
-        name: p.name,
-        screenSharing: this.screenSharers.has(p.id)
-      }));
+      .filter(p => p.id !== state.peerId)
+      .map(presenceOf);
     
     conn.send(JSON.stringify({
       type: "welcome",
-      peerId,
-      name,
-      peers: existingPeers
+      protocolVersion: PROTOCOL_VERSION,
+      peerId: state.peerId,
+      name: state.name,
+      peers: existingPeers,
+      locked: this.roomState.locked,
+      passphraseProtected: this.roomState.passphraseHash !== null,
+      hostId,
+      resumeToken: state.resumeToken,
+      resumed
     }));
 
-    // Notify all other peers about the new peer
+    const { id, ...presence } = presenceOf(state);
     this.broadcast(JSON.stringify({
       type: "join",
-      peerId,
-      name
-    }), [peerId]);
+      peerId: id,
+      ...presence
+    }), [state.peerId]);
   }
 
-  onMessage(message: string, sender: Party.Connection) {
+  async onMessage(message: string | ArrayBuffer | ArrayBufferView, sender: Party.Connection) {
+    // Ignore connections that haven't been admitted
+    const senderId = peerIdOf(sender);
+    if (!senderId) return;
+
+    // Legitimate clients never come near the size cap
+    const length = typeof message === "string" ? message.length : message.byteLength;
+    if (length > this.rateLimits.maxMessageLength) {
+      await this.disconnectAbuser(sender, `message of ${length} characters exceeds ${this.rateLimits.maxMessageLength}`);
+      return;
+    }
+
+    const limiter = this.limiterFor(sender);
+    if (!(await this.applyRateDecision(sender, limiter, limiter.admit(), "messages"))) return;
+
+    const result = validateMessage<SignalMessage>(message);
+    if (!result.ok) {
+      sender.send(JSON.stringify({ type: "error", reason: "invalid-message", detail: result.detail }));
+      return;
+    }
+
     try {
-      const data = JSON.parse(message) as SignalMessage;
+      const data = result.message;
+
+      if (!(await this.applyRateDecision(sender, limiter, limiter.admitType(data.type), `"${data.type}" messages`))) return;
+
+      if (HOST_ONLY.has(data.type) && senderId !== this.roomState.hostId) {
+        sender.send(JSON.stringify({ type: "error", reason: "not-host" }));
+        return;
+      }
       
       switch (data.type) {
         case "offer":
         case "answer":
         case "ice-candidate":
+        case "peer-reset":
+        case "video-layer":
           // Relay signaling messages to specific peer
           const targetPeer = this.peers.get(data.to);
           if (targetPeer) {
             targetPeer.connection.send(JSON.stringify({
               ...data,
-              from: sender.id
+              from: senderId
             }));
           }
           break;
           
         case "mute-status":
-          // Broadcast mute status to all peers
+          // Remember and broadcast mute status to all peers
+          this.updateConnectionState(sender, { muted: data.muted });
           this.broadcast(JSON.stringify({
             type: "mute-status",
-            peerId: sender.id,
+            peerId: senderId,
             muted: data.muted
-          }), [sender.id]);
+          }), [senderId]);
+          break;
+
+        case "deafen-status":
+          // Remember and broadcast deafen status to all peers
+          this.updateConnectionState(sender, { deafened: data.deafened });
+          this.broadcast(JSON.stringify({
+            type: "deafen-status",
+            peerId: senderId,
+            deafened: data.deafened
+          }), [senderId]);
           break;
 
         case "camera-status":
-          // Broadcast camera status to all peers (presence layer)
+          // Remember and broadcast camera status to all peers (presence layer)
+          this.updateConnectionState(sender, { cameraEnabled: data.enabled });
           this.broadcast(JSON.stringify({
             type: "camera-status",
-            peerId: sender.id,
-            enabled: (data as any).enabled
-          }), [sender.id]);
+            peerId: senderId,
+            enabled: data.enabled
+          }), [senderId]);
+          break;
+
+        case "recording-status":
+          // Remember and broadcast, so everyone sees who is recording
+          this.updateConnectionState(sender, { recording: data.recording });
+          this.broadcast(JSON.stringify({
+            type: "recording-status",
+            peerId: senderId,
+            recording: data.recording
+          }), [senderId]);
           break;
 
         case "screen-start": {
-          // Track screen sharer and broadcast
-          if (this.screenSharers.size >= MAX_SCREEN_SHARERS && !this.screenSharers.has(sender.id)) {
-            // Soft limit reached - still allow but could warn
-            console.log(`[Room ${this.room.id}] Screen share slots full (${this.screenSharers.size}/${MAX_SCREEN_SHARERS})`);
+          if (!this.screenSharers.has(senderId)) {
+            // A slot held for them from the queue, or a free one nobody is waiting for
+            if (!(senderId in this.roomState.screenOffers) && this.screenSlotsTaken >= MAX_SCREEN_SHARERS) {
+              sender.send(JSON.stringify({
+                type: "error",
+                reason: "screen-slots-full",
+                detail: `all ${MAX_SCREEN_SHARERS} screen share slots are in use`
+              }));
+              break;
+            }
+            await this.leaveScreenQueue(senderId);
           }
-          this.screenSharers.add(sender.id);
+          // Track screen sharer and broadcast
+          await this.setScreenSharing(sender, true);
           this.broadcast(JSON.stringify({
             type: "screen-start",
-            peerId: sender.id
-          }), [sender.id]);
+            peerId: senderId
+          }), [senderId]);
           break;
         }
 
         case "screen-stop":
           // Remove from sharers and broadcast
-          this.screenSharers.delete(sender.id);
+          await this.setScreenSharing(sender, false);
           this.broadcast(JSON.stringify({
             type: "screen-stop",
-            peerId: sender.id
-          }), [sender.id]);
+            peerId: senderId
+          }), [senderId]);
+          await this.advanceScreenQueue();
+          break;
+
+        case "screen-queue-join": {
+          if (this.screenSharers.has(senderId) || senderId in this.roomState.screenOffers) break;
+          if (!this.roomState.screenQueue.includes(senderId)) {
+            this.roomState.screenQueue.push(senderId);
+            await this.saveRoomState();
+          }
+          this.sendScreenQueueStatus(senderId);
+          // A slot may have freed up in the meantime
+          await this.advanceScreenQueue();
+          break;
+        }
+
+        case "screen-queue-leave":
+          await this.leaveScreenQueue(senderId);
+          await this.advanceScreenQueue();
           break;
 
         case "screen-subscribe":
-        case "screen-unsubscribe":
+        case "screen-unsubscribe": {
+          const sharerId = data.to;
+          if (this.relayConfig.fanout > 0 && this.screenSharers.has(sharerId) && sharerId !== senderId) {
+            if (data.type === "screen-subscribe") {
+              this.subscribeThroughRelay(sharerId, senderId);
+            } else {
+              this.detachViewer(sharerId, senderId, true);
+            }
+            await this.saveRoomState();
+          } else {
+            this.sendRelayRequest(data.type, sharerId, senderId, sharerId);
+          }
+          break;
+        }
+
         case "screen-offer":
         case "screen-answer":
         case "screen-ice": {
           // Relay screen share signaling to specific peer
-          const target = this.peers.get((data as any).to);
+          const target = this.peers.get(data.to);
           if (target) {
             target.connection.send(JSON.stringify({
               ...data,
-              from: sender.id
+              from: senderId
             }));
           }
           break;
         }
+        case "lock-request": {
+          const locked = data.locked;
+          if (locked !== this.roomState.locked) {
+            this.roomState.locked = locked;
+            await this.saveRoomState();
+            this.broadcast(JSON.stringify({
+              type: "room-locked",
+              locked
+            }));
+          }
+          break;
+        }
+
+        case "kick": {
+          const target = this.peers.get(data.peerId);
+          if (!target || target.id === senderId) break;
+          target.connection.send(JSON.stringify({ type: "error", reason: "kicked" }));
+          // Clear state first so the close isn't held for resumption
+          target.connection.setState(null);
+          target.connection.close(4003, "kicked");
+          await this.removePeer(target.id);
+          break;
+        }
+
+        case "mute-all":
+          // Ask everyone else to mute; clients apply it themselves
+          this.broadcast(JSON.stringify({
+            type: "mute-request",
+            from: senderId
+          }), [senderId]);
+          break;
+
+        case "stop-share": {
+          const target = this.peers.get(data.peerId);
+          if (!target || !this.screenSharers.has(target.id)) break;
+          await this.setScreenSharing(target.connection, false);
+          // Sent to the sharer too, so it tears down its stream
+          this.broadcast(JSON.stringify({
+            type: "screen-stop",
+            peerId: target.id
+          }));
+          await this.advanceScreenQueue();
+          break;
+        }
+
+        case "transfer-host": {
+          const target = this.peers.get(data.peerId);
+          if (!target || target.id === senderId) break;
+          await this.assignHost(target.id);
+          break;
+        }
+
+        case "leave":
+          // Left on purpose: no resume grace, so nothing lingers for the others.
+          // State is cleared first so the close isn't held for resumption.
+          sender.setState(null);
+          sender.close(1000, "left");
+          await this.removePeer(senderId);
+          break;
+
         case "rename-request": {
-          const current = this.peers.get(sender.id);
+          const current = this.peers.get(senderId);
           if (!current) break;
-          const proposed = sanitizeName((data as any).name);
-          const unique = isNameTaken(this.peers, proposed, sender.id)
-            ? allocateUniqueName(this.peers, proposed)
-            : proposed;
+          const proposed = sanitizeName(data.name);
+          const unique = allocateUniqueName(this.takenNames(senderId, current.clientId), proposed);
           if (unique !== current.name) {
-            current.name = unique;
-            this.peers.set(sender.id, current);
+            this.updateConnectionState(sender, { name: unique });
+            if (!this.clientIdInUse(current.clientId, senderId)) {
+              await this.reserveName(current.clientId, unique);
+            }
             this.broadcast(JSON.stringify({
               type: "rename",
-              peerId: sender.id,
+              peerId: senderId,
               name: unique
             }));
           }
@@ -209,29 +891,127 @@ export default class LoSpeakServer implements Party.Server {
         }
       }
     } catch (e) {
-      console.error("Failed to parse message:", e);
+      console.error("Failed to handle message:", e);
     }
   }
 
-  onClose(conn: Party.Connection) {
-    const peerId = conn.id;
-    this.peers.delete(peerId);
-    
+  // Returns whether the message may be handled
+  async applyRateDecision(conn: Party.Connection, limiter: ConnectionLimiter, decision: RateDecision, what: string): Promise<boolean> {
+    if (decision === "allow") return true;
+    if (decision === "disconnect") {
+      await this.disconnectAbuser(conn, `kept sending ${what} over the rate limit`);
+      return false;
+    }
+    // Warn once per burst rather than answering every dropped message
+    if (!limiter.recentlyWarned()) {
+      conn.send(JSON.stringify({ type: "error", reason: "rate-limited", detail: `too many ${what}, some were dropped` }));
+    }
+    return false;
+  }
+
+  async disconnectAbuser(conn: Party.Connection, detail: string) {
+    const peerId = peerIdOf(conn);
+    console.warn(`[Room ${this.room.id}] Disconnecting ${peerId ?? conn.id}: ${detail}`);
+    conn.send(JSON.stringify({ type: "error", reason: "flooding", detail }));
+    // Like a kick: clear state first so the session can't be resumed
+    conn.setState(null);
+    conn.close(4008, "flooding");
+    this.limiters.delete(conn.id);
+    if (peerId) await this.removePeer(peerId);
+  }
+
+  async onClose(conn: Party.Connection) {
+    this.limiters.delete(conn.id);
+
+    // Rejected, kicked and replaced connections have no state
+    const state = conn.state as ConnectionState | null;
+    if (!state) return;
+
+    // Hold the session so the client can resume it; others aren't told yet
+    this.roomState.away[state.peerId] = {
+      state: { ...state },
+      until: Date.now() + RESUME_GRACE_MS
+    };
+    await this.saveRoomState();
+    await this.scheduleAlarm();
+  }
+
+  /**
+   * Announce that a peer is gone for good and release what it held.
+   */
+  async removePeer(peerId: string) {
+    // Their viewers get their screens from someone else
+    for (const sharerId of Object.keys(this.roomState.screenRelays)) {
+      this.detachViewer(sharerId, peerId, false);
+    }
+
     // Clean up screen share if they were sharing
     if (this.screenSharers.has(peerId)) {
-      this.screenSharers.delete(peerId);
+      this.roomState.screenSharers = this.roomState.screenSharers.filter(id => id !== peerId);
+      delete this.roomState.screenRelays[peerId];
       // Broadcast screen-stop so others can clean up
       this.broadcast(JSON.stringify({
         type: "screen-stop",
         peerId
-      }));
+      }), [peerId]);
     }
     
     // Notify all peers about the departure
     this.broadcast(JSON.stringify({
       type: "leave",
       peerId
-    }));
+    }), [peerId]);
+
+    // Keep the host key valid for a while so the host can come back from a reload
+    if (peerId === this.roomState.hostId) {
+      this.roomState.hostId = null;
+      this.roomState.hostAwayUntil = Date.now() + HOST_GRACE_MS;
+      this.broadcast(JSON.stringify({ type: "host", peerId: null }), [peerId]);
+    }
+
+    await this.leaveScreenQueue(peerId);
+    await this.saveRoomState();
+    await this.scheduleAlarm();
+    await this.advanceScreenQueue();
+  }
+
+  async onAlarm() {
+    const now = Date.now();
+
+    // Sessions that weren't resumed in time are gone
+    for (const [peerId, session] of Object.entries(this.roomState.away)) {
+      if (session.until > now) continue;
+      delete this.roomState.away[peerId];
+      await this.removePeer(peerId);
+    }
+
+    // Last one out resets the room (passphrase, lock, host) so the code can be reused
+    if (this.peers.size === 0 && Object.keys(this.roomState.away).length === 0) {
+      this.roomState = defaultRoomState();
+      await this.room.storage.delete(ROOM_STATE_KEY);
+      await this.room.storage.deleteAlarm();
+      return;
+    }
+
+    // Slots nobody picked up in time go to the next in line
+    const expiredOffers = Object.entries(this.roomState.screenOffers).filter(([, until]) => until <= now);
+    for (const [peerId] of expiredOffers) {
+      delete this.roomState.screenOffers[peerId];
+      this.sendScreenQueueStatus(peerId);
+    }
+    if (expiredOffers.length > 0) {
+      await this.saveRoomState();
+      await this.advanceScreenQueue();
+    }
+
+    // Host didn't come back: promote whoever has been here longest. If only
+    // dropped sessions are left, the role stays vacant until one resumes.
+    const hostAwayUntil = this.roomState.hostAwayUntil;
+    if (!this.roomState.hostId && hostAwayUntil && hostAwayUntil <= now) {
+      const next = [...this.peers.values()].sort((a, b) => a.joinedAt - b.joinedAt)[0];
+      await this.assignHost(next?.id ?? null);
+    }
+    await this.scheduleAlarm();
   }
 
   broadcast(message: string, exclude: string[] = []) {
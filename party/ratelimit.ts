@@ -0,0 +1,202 @@
+// Flood protection for the signaling server.
+// Each connection gets a token bucket for all of its messages, plus one per
+// message type that fans out to the whole room. Messages over the limit are
+// dropped; a connection that keeps going past it is disconnected.
+
+import { MAX_MESSAGE_LENGTH } from "./schema";
+
+export interface BucketLimit {
+  rate: number;   // Tokens refilled per second
+  burst: number;  // Bucket size
+}
+
+export interface RateLimitConfig {
+  maxMessageLength: number;                  // Characters; never above the schema ceiling
+  connection: BucketLimit;                   // All messages from one connection
+  perType: Record<string, BucketLimit>;      // Extra limits for specific message types
+  passphrase: BucketLimit;                   // Passphrase checks per client, before admission
+  maxViolations: number;                     // Dropped messages tolerated...
+  violationWindowMs: number;                 // ...within this window before disconnecting
+}
+
+// Sized for a busy room: a fresh join sends an offer and a burst of ICE
+// candidates to every peer, plus screen connections on top.
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  maxMessageLength: MAX_MESSAGE_LENGTH,
+  connection: { rate: 50, burst: 200 },
+  perType: {
+    "rename-request": { rate: 0.5, burst: 3 },
+    "peer-reset": { rate: 0.5, burst: 5 },
+    "mute-status": { rate: 5, burst: 10 },
+    "deafen-status": { rate: 5, burst: 10 },
+    "camera-status": { rate: 2, burst: 5 },
+    "recording-status": { rate: 1, burst: 3 },
+    // One per watched peer on every layout change
+    "video-layer": { rate: 5, burst: 30 },
+    "screen-start": { rate: 1, burst: 3 },
+    "screen-stop": { rate: 1, burst: 3 },
+    "screen-queue-join": { rate: 1, burst: 3 },
+    "screen-queue-leave": { rate: 1, burst: 3 },
+    "lock-request": { rate: 1, burst: 3 },
+    "mute-all": { rate: 0.5, burst: 2 },
+    "kick": { rate: 1, burst: 5 },
+    "stop-share": { rate: 1, burst: 5 },
+    "transfer-host": { rate: 0.5, burst: 2 }
+  },
+  // Each check is a PBKDF2 hash, so guesses are throttled before hashing
+  passphrase: { rate: 0.2, burst: 5 },
+  maxViolations: 20,
+  violationWindowMs: 10_000
+};
+
+function isLimit(value: unknown): value is BucketLimit {
+  if (typeof value !== "object" || value === null) return false;
+  const { rate, burst } = value as Record<string, unknown>;
+  return typeof rate === "number" && rate > 0 && typeof burst === "number" && burst >= 1;
+}
+
+function positiveNumber(raw: unknown): number | undefined {
+  const value = Number(raw);
+  return raw !== undefined && raw !== "" && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Build the limits for this deployment from PartyKit vars (`partykit.json`
+ * "vars" or `--var` on deploy). Anything missing or malformed keeps its default.
+ *
+ * - `SIGNAL_MAX_MESSAGE_LENGTH` - largest accepted message, in characters
+ * - `SIGNAL_RATE_LIMITS` - JSON of `{ "<type>": { "rate": n, "burst": n } }`;
+ *   the key `"*"` sets the per-connection limit, `"passphrase"` the passphrase
+ *   checks per client
+ * - `SIGNAL_MAX_VIOLATIONS` / `SIGNAL_VIOLATION_WINDOW_MS` - disconnect threshold
+ */
+export function loadRateLimitConfig(env: Record<string, unknown>): RateLimitConfig {
+  const config: RateLimitConfig = {
+    ...DEFAULT_RATE_LIMITS,
+    connection: { ...DEFAULT_RATE_LIMITS.connection },
+    perType: { ...DEFAULT_RATE_LIMITS.perType },
+    passphrase: { ...DEFAULT_RATE_LIMITS.passphrase }
+  };
+
+  config.maxMessageLength = Math.min(
+    positiveNumber(env.SIGNAL_MAX_MESSAGE_LENGTH) ?? config.maxMessageLength,
+    MAX_MESSAGE_LENGTH
+  );
+  config.maxViolations = positiveNumber(env.SIGNAL_MAX_VIOLATIONS) ?? config.maxViolations;
+  config.violationWindowMs = positiveNumber(env.SIGNAL_VIOLATION_WINDOW_MS) ?? config.violationWindowMs;
+
+  const raw = env.SIGNAL_RATE_LIMITS;
+  if (raw !== undefined) {
+    try {
+      const overrides: unknown = typeof raw === "string" ? JSON.parse(raw) : raw;
+      if (typeof overrides === "object" && overrides !== null) {
+        for (const [type, limit] of Object.entries(overrides)) {
+          if (!isLimit(limit)) {
+            console.warn(`[RateLimit] Ignoring invalid limit for "${type}"`);
+            continue;
+          }
+          if (type === "*") config.connection = { rate: limit.rate, burst: limit.burst };
+          else if (type === "passphrase") config.passphrase = { rate: limit.rate, burst: limit.burst };
+          else config.perType[type] = { rate: limit.rate, burst: limit.burst };
+        }
+      }
+    } catch {
+      console.warn("[RateLimit] SIGNAL_RATE_LIMITS is not valid JSON, using defaults");
+    }
+  }
+
+  return config;
+}
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(private limit: BucketLimit, now: number) {
+    this.tokens = limit.burst;
+    this.updatedAt = now;
+  }
+
+  take(now: number): boolean {
+    const elapsed = (now - this.updatedAt) / 1000;
+    this.tokens = Math.min(this.limit.burst, this.tokens + elapsed * this.limit.rate);
+    this.updatedAt = now;
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  // Whether it has refilled completely, so forgetting it changes nothing
+  full(now: number): boolean {
+    return this.tokens + (now - this.updatedAt) / 1000 * this.limit.rate >= this.limit.burst;
+  }
+}
+
+export type RateDecision = "allow" | "drop" | "disconnect";
+
+/**
+ * Limiter state for one connection. Kept in memory only: after the room
+ * hibernates connections start again with full buckets, which errs lenient.
+ */
+export class ConnectionLimiter {
+  private connection: TokenBucket;
+  private perType = new Map<string, TokenBucket>();
+  private violations: number[] = [];
+
+  constructor(private config: RateLimitConfig, now = Date.now()) {
+    this.connection = new TokenBucket(config.connection, now);
+  }
+
+  /** Charge a message against the connection-wide bucket (before parsing). */
+  admit(now = Date.now()): RateDecision {
+    return this.connection.take(now) ? "allow" : this.violation(now);
+  }
+
+  /** Charge a validated message against its type's bucket, if it has one. */
+  admitType(type: string, now = Date.now()): RateDecision {
+    const limit = this.config.perType[type];
+    if (!limit) return "allow";
+    let bucket = this.perType.get(type);
+    if (!bucket) {
+      bucket = new TokenBucket(limit, now);
+      this.perType.set(type, bucket);
+    }
+    return bucket.take(now) ? "allow" : this.violation(now);
+  }
+
+  /** Whether the previous drop was recent enough that the client was already told. */
+  recentlyWarned(now = Date.now()): boolean {
+    return this.violations.length > 1 && now - this.violations[this.violations.length - 2] < 1000;
+  }
+
+  private violation(now: number): RateDecision {
+    const cutoff = now - this.config.violationWindowMs;
+    this.violations = this.violations.filter(t => t > cutoff);
+    this.violations.push(now);
+    return this.violations.length > this.config.maxViolations ? "disconnect" : "drop";
+  }
+}
+
+/**
+ * Attempts at something expensive (passphrase checks), keyed by client rather
+ * than connection, since a new connection is all a retry takes. In memory
+ * only, like ConnectionLimiter.
+ */
+export class AttemptLimiter {
+  private buckets = new Map<string, TokenBucket>();
+
+  constructor(private limit: BucketLimit) {}
+
+  admit(client: string, now = Date.now()): boolean {
+    // Clients that stopped trying are back to a full bucket anyway
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.full(now)) this.buckets.delete(key);
+    }
+    let bucket = this.buckets.get(client);
+    if (!bucket) {
+      bucket = new TokenBucket(this.limit, now);
+      this.buckets.set(client, bucket);
+    }
+    return bucket.take(now);
+  }
+}
@@ -0,0 +1,59 @@
+// Relay trees for screen shares in large rooms.
+// With relaying on, a sharer sends to at most `fanout` viewers itself; every
+// further viewer is attached to a viewer that forwards the share it receives,
+// keeping the tree as shallow as possible. Configured with a PartyKit var:
+//
+// - `SCREEN_RELAY_FANOUT` - connections each sharer or forwarder serves (unset or 0: relaying off)
+
+export interface RelayConfig {
+  fanout: number;  // 0 = every viewer connects to the sharer
+}
+
+export function loadRelayConfig(env: Record<string, unknown>): RelayConfig {
+  const fanout = Number(env.SCREEN_RELAY_FANOUT);
+  return { fanout: Number.isInteger(fanout) && fanout > 0 ? fanout : 0 };
+}
+
+// Viewer id -> the peer it receives the share from (the sharer or a forwarder)
+export type RelayTree = Record<string, string>;
+
+export function childrenOf(tree: RelayTree, parentId: string): string[] {
+  return Object.keys(tree).filter(id => tree[id] === parentId);
+}
+
+// A viewer and everyone receiving through it
+function subtreeOf(tree: RelayTree, rootId: string): Set<string> {
+  const subtree = new Set([rootId]);
+  const pending = [rootId];
+  while (pending.length > 0) {
+    for (const child of childrenOf(tree, pending.pop()!)) {
+      subtree.add(child);
+      pending.push(child);
+    }
+  }
+  return subtree;
+}
+
+/**
+ * Pick where a viewer should receive the share from: the shallowest node with
+ * a free slot, never the viewer's own subtree (that would make a loop) and
+ * never a node in `avoid`. Falls back to the sharer, which can always take
+ * one more.
+ */
+export function chooseParent(
+  tree: RelayTree,
+  sharerId: string,
+  viewerId: string,
+  fanout: number,
+  avoid: ReadonlySet<string> = new Set()
+): string {
+  const excluded = subtreeOf(tree, viewerId);
+  const queue = [sharerId];
+  while (queue.length > 0) {
+    const candidate = queue.shift()!;
+    const children = childrenOf(tree, candidate).filter(id => !excluded.has(id));
+    if (!avoid.has(candidate) && children.length < fanout) return candidate;
+    queue.push(...children);
+  }
+  return sharerId;
+}
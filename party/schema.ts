@@ -0,0 +1,132 @@
+// Runtime validation for messages coming from clients.
+// Every message type has a schema; anything not in the schema is dropped,
+// so relayed payloads are rebuilt from checked fields only.
+
+import { VIDEO_LAYERS } from "../src/lib/protocol";
+
+// Size limits
+export const MAX_MESSAGE_LENGTH = 64 * 1024;
+const MAX_ID_LENGTH = 64;
+const MAX_NAME_LENGTH = 64;       // Sanitized down further by the server
+const MAX_SDP_LENGTH = 48 * 1024;
+const MAX_CANDIDATE_LENGTH = 1024;
+
+type Check = (value: unknown) => boolean;
+type Schema = Record<string, Check>;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const string = (max: number): Check => v => typeof v === "string" && v.length <= max;
+const boolean: Check = v => typeof v === "boolean";
+const oneOf = (values: readonly string[]): Check => v => typeof v === "string" && values.includes(v);
+const optional = (check: Check): Check => v => v === undefined || check(v);
+const nullable = (check: Check): Check => v => v === null || check(v);
+const id = string(MAX_ID_LENGTH);
+
+const sessionDescription = (type: "offer" | "answer"): Check => v =>
+  isObject(v) && v.type === type && string(MAX_SDP_LENGTH)(v.sdp);
+
+const iceCandidate: Check = v =>
+  isObject(v) &&
+  string(MAX_CANDIDATE_LENGTH)(v.candidate) &&
+  optional(nullable(string(MAX_ID_LENGTH)))(v.sdpMid) &&
+  optional(nullable(v => Number.isInteger(v) && (v as number) >= 0 && (v as number) < 1024))(v.sdpMLineIndex) &&
+  optional(nullable(string(MAX_ID_LENGTH)))(v.usernameFragment);
+
+// Nested objects are copied field by field too. Their checks above have
+// passed by now; the narrowing only keeps the copies type-safe.
+function pickSessionDescription(v: unknown): RTCSessionDescriptionInit | null {
+  if (!isObject(v) || (v.type !== "offer" && v.type !== "answer") || typeof v.sdp !== "string") return null;
+  return { type: v.type, sdp: v.sdp };
+}
+
+function pickIceCandidate(v: unknown): RTCIceCandidateInit | null {
+  if (!isObject(v) || typeof v.candidate !== "string") return null;
+  const candidate: RTCIceCandidateInit = { candidate: v.candidate };
+  if (typeof v.sdpMid === "string" || v.sdpMid === null) candidate.sdpMid = v.sdpMid;
+  if (typeof v.sdpMLineIndex === "number" || v.sdpMLineIndex === null) candidate.sdpMLineIndex = v.sdpMLineIndex;
+  if (typeof v.usernameFragment === "string" || v.usernameFragment === null) candidate.usernameFragment = v.usernameFragment;
+  return candidate;
+}
+
+const picks: Record<string, (v: unknown) => unknown> = {
+  offer: pickSessionDescription,
+  answer: pickSessionDescription,
+  candidate: pickIceCandidate
+};
+
+// Messages a client may send. `peerId` on status messages is ignored by the
+// server (it uses the sender's own id) but older clients include it.
+const schemas: Record<string, Schema> = {
+  "offer": { to: id, offer: sessionDescription("offer") },
+  "answer": { to: id, answer: sessionDescription("answer") },
+  "ice-candidate": { to: id, candidate: iceCandidate },
+  "peer-reset": { to: id },
+  "mute-status": { peerId: optional(id), muted: boolean },
+  "deafen-status": { peerId: optional(id), deafened: boolean },
+  "camera-status": { peerId: optional(id), enabled: boolean },
+  "recording-status": { peerId: optional(id), recording: boolean },
+  "leave": { peerId: optional(id) },
+  "video-layer": { to: id, layer: oneOf(VIDEO_LAYERS) },
+  "rename-request": { name: string(MAX_NAME_LENGTH) },
+  "screen-start": { peerId: optional(id) },
+  "screen-stop": { peerId: optional(id) },
+  "screen-queue-join": {},
+  "screen-queue-leave": {},
+  "screen-subscribe": { to: id },
+  "screen-unsubscribe": { to: id },
+  "screen-offer": { to: id, sharer: id, offer: sessionDescription("offer") },
+  "screen-answer": { to: id, sharer: id, answer: sessionDescription("answer") },
+  "screen-ice": { to: id, sharer: id, candidate: iceCandidate },
+  "lock-request": { locked: boolean },
+  "kick": { peerId: id },
+  "mute-all": {},
+  "stop-share": { peerId: id },
+  "transfer-host": { peerId: id }
+};
+
+export type ValidationResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; detail: string };
+
+/**
+ * Parse and validate a raw client message against its type's schema.
+ * Returns a copy holding only the schema's fields, or what was wrong.
+ */
+export function validateMessage<T extends { type: string }>(raw: unknown): ValidationResult<T> {
+  if (typeof raw !== "string") {
+    return { ok: false, detail: "binary messages are not supported" };
+  }
+  if (raw.length > MAX_MESSAGE_LENGTH) {
+    return { ok: false, detail: `message exceeds ${MAX_MESSAGE_LENGTH} characters` };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, detail: "malformed JSON" };
+  }
+  if (!isObject(data) || typeof data.type !== "string") {
+    return { ok: false, detail: "missing message type" };
+  }
+
+  const schema = Object.hasOwn(schemas, data.type) ? schemas[data.type] : undefined;
+  if (!schema) {
+    return { ok: false, detail: `unknown message type "${data.type.slice(0, MAX_ID_LENGTH)}"` };
+  }
+
+  const message: Record<string, unknown> = { type: data.type };
+  for (const [field, check] of Object.entries(schema)) {
+    const value = data[field];
+    if (!check(value)) {
+      return { ok: false, detail: `invalid field "${field}" in ${data.type}` };
+    }
+    if (value !== undefined) {
+      message[field] = picks[field] ? picks[field](value) : value;
+    }
+  }
+  return { ok: true, message: message as T };
+}
@@ -0,0 +1,225 @@
+#!/usr/bin/env node
+/**
+ * Offline VAD gate: run a WAV file through the same RNNoise frame processing
+ * the app uses (src/lib/vad-gate.ts) and write the gated audio plus a CSV of
+ * per-frame VAD scores and gate state. Useful for comparing thresholds on
+ * recorded keyboard and speech samples.
+ *
+ *   npm run vad:wav -- input.wav [--threshold 0.85] [--hold 10] [--attack 5]
+ *     [--release 100] [--lookahead 2] [--attenuate 24] [--no-denoise] [--out prefix]
+ *
+ * Writes <prefix>.gated.wav and <prefix>.vad.csv (prefix defaults to the input
+ * path without .wav). Input must be 48kHz (RNNoise's rate); PCM 16/24/32-bit
+ * and 32-bit float are read, multi-channel files are downmixed to mono.
+ * The output is aligned with the input: the gate's lookahead delay is removed.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { runnerImport } from 'vite';
+import createRNNWasmModule from '@jitsi/rnnoise-wasm/dist/rnnoise.js';
+
+const SAMPLE_RATE = 48000;
+const WASM_PATH = fileURLToPath(new URL('../static/rnnoise.wasm', import.meta.url));
+const VAD_GATE_PATH = fileURLToPath(new URL('../src/lib/vad-gate.ts', import.meta.url));
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Decode a WAV file to mono float samples.
+ * @param {Buffer} buffer
+ * @returns {{ sampleRate: number, samples: Float32Array }}
+ */
+function readWav(buffer) {
+  if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let format = null;
+  let data = null;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      let tag = buffer.readUInt16LE(body);
+      // Extensible files keep the real format in the first two bytes of the subformat GUID
+      if (tag === WAVE_FORMAT_EXTENSIBLE) tag = buffer.readUInt16LE(body + 24);
+      format = {
+        tag,
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14)
+      };
+    } else if (id === 'data') {
+      // Recorders that were cut off can leave a size past the end of the file
+      data = buffer.subarray(body, Math.min(body + size, buffer.length));
+    }
+    offset = body + size + (size % 2); // Chunks are word-aligned
+  }
+  if (!format || !data) throw new Error('Missing fmt or data chunk');
+
+  const { tag, channels, sampleRate, bitsPerSample } = format;
+  const bytes = bitsPerSample / 8;
+  /** @type {(at: number) => number} */
+  let read;
+  if (tag === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32) {
+    read = at => data.readFloatLE(at);
+  } else if (tag === WAVE_FORMAT_PCM && bitsPerSample === 16) {
+    read = at => data.readInt16LE(at) / 32768;
+  } else if (tag === WAVE_FORMAT_PCM && bitsPerSample === 24) {
+    read = at => data.readIntLE(at, 3) / 8388608;
+  } else if (tag === WAVE_FORMAT_PCM && bitsPerSample === 32) {
+    read = at => data.readInt32LE(at) / 2147483648;
+  } else {
+    throw new Error(`Unsupported WAV format ${tag} at ${bitsPerSample} bits`);
+  }
+
+  const length = Math.floor(data.length / (bytes * channels));
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) sum += read((i * channels + c) * bytes);
+    samples[i] = sum / channels;
+  }
+  return { sampleRate, samples };
+}
+
+/**
+ * Encode mono float samples as a 16-bit PCM WAV file.
+ * @param {Float32Array} samples
+ * @param {number} sampleRate
+ */
+function writeWav(samples, sampleRate) {
+  const buffer = Buffer.alloc(44 + samples.length * 2);
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.writeUInt32LE(36 + samples.length * 2, 4);
+  buffer.write('WAVE', 8, 'ascii');
+  buffer.write('fmt ', 12, 'ascii');
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(WAVE_FORMAT_PCM, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36, 'ascii');
+  buffer.writeUInt32LE(samples.length * 2, 40);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    buffer.writeInt16LE(Math.round(sample * 32767), 44 + i * 2);
+  }
+  return buffer;
+}
+
+/**
+ * @param {string | undefined} value
+ * @param {number} fallback
+ * @param {string} name
+ */
+function numberOption(value, fallback, name) {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new Error(`--${name} expects a number, got "${value}"`);
+  return number;
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      threshold: { type: 'string' },
+      hold: { type: 'string' },
+      attack: { type: 'string' },
+      release: { type: 'string' },
+      lookahead: { type: 'string' },
+      attenuate: { type: 'string' },
+      'no-denoise': { type: 'boolean', default: false },
+      out: { type: 'string', short: 'o' }
+    }
+  });
+  const input = positionals[0];
+  if (!input) {
+    console.error('Usage: npm run vad:wav -- <input.wav> [--threshold 0.85] [--hold 10] [--attack 5] ' +
+      '[--release 100] [--lookahead 2] [--attenuate <dB>] [--no-denoise] [--out <prefix>]');
+    process.exit(1);
+  }
+
+  // vad-gate.ts is TypeScript; Vite's module runner loads it without a build step
+  const { module: vadGate } = await runnerImport(VAD_GATE_PATH, { configFile: false, logLevel: 'silent' });
+  const { DEFAULT_VAD_GATE_SETTINGS: defaults, RNNOISE_SAMPLE_LENGTH, VadFrameProcessor } = vadGate;
+
+  const settings = {
+    threshold: numberOption(values.threshold, defaults.threshold, 'threshold'),
+    holdFrames: numberOption(values.hold, defaults.holdFrames, 'hold'),
+    attackMs: numberOption(values.attack, defaults.attackMs, 'attack'),
+    releaseMs: numberOption(values.release, defaults.releaseMs, 'release'),
+    lookaheadFrames: numberOption(values.lookahead, defaults.lookaheadFrames, 'lookahead'),
+    attenuate: values.attenuate !== undefined,
+    attenuationDb: numberOption(values.attenuate, defaults.attenuationDb, 'attenuate'),
+    denoise: !values['no-denoise'],
+    gate: true
+  };
+
+  const { sampleRate, samples } = readWav(readFileSync(input));
+  if (sampleRate !== SAMPLE_RATE) {
+    throw new Error(`${input} is ${sampleRate}Hz; RNNoise needs ${SAMPLE_RATE}Hz (e.g. ffmpeg -i in.wav -ar 48000 out.wav)`);
+  }
+
+  const module = await createRNNWasmModule({ wasmBinary: readFileSync(WASM_PATH) });
+  const processor = new VadFrameProcessor(module, sampleRate, settings);
+  // The frame processor clamps the lookahead; use the same value to undo the delay
+  const lookahead = Math.max(0, Math.min(vadGate.MAX_LOOKAHEAD_FRAMES, Math.round(settings.lookaheadFrames)));
+
+  // Feed `lookahead` frames of silence at the end to flush the delay line
+  const frameCount = Math.ceil(samples.length / RNNOISE_SAMPLE_LENGTH);
+  const steps = frameCount + lookahead;
+  const gated = new Float32Array(steps * RNNOISE_SAMPLE_LENGTH);
+  const frame = new Float32Array(RNNOISE_SAMPLE_LENGTH);
+  const out = new Float32Array(RNNOISE_SAMPLE_LENGTH);
+  const rows = [];
+  const gains = new Float32Array(steps);
+
+  for (let step = 0; step < steps; step++) {
+    frame.fill(0);
+    if (step < frameCount) frame.set(samples.subarray(step * RNNOISE_SAMPLE_LENGTH, (step + 1) * RNNOISE_SAMPLE_LENGTH));
+    const score = processor.process(frame, out);
+    gated.set(out, step * RNNOISE_SAMPLE_LENGTH);
+    gains[step] = processor.gain;
+    if (step < frameCount) rows.push({ score, smoothed: processor.gate.smoothed, open: processor.gate.open });
+  }
+  processor.destroy();
+
+  // Output frame `step` carries input frame `step - lookahead`: shift both back into line
+  const aligned = gated.subarray(lookahead * RNNOISE_SAMPLE_LENGTH, lookahead * RNNOISE_SAMPLE_LENGTH + samples.length);
+  const frameMs = (RNNOISE_SAMPLE_LENGTH / sampleRate) * 1000;
+  const csv = ['frame,time_ms,vad,smoothed,gate_open,gain'];
+  rows.forEach((row, i) => {
+    csv.push([
+      i,
+      (i * frameMs).toFixed(0),
+      row.score.toFixed(4),
+      row.smoothed.toFixed(4),
+      row.open ? 1 : 0,
+      gains[i + lookahead].toFixed(4)
+    ].join(','));
+  });
+
+  const prefix = values.out ?? input.replace(/\.wav$/i, '');
+  writeFileSync(`${prefix}.gated.wav`, writeWav(aligned, sampleRate));
+  writeFileSync(`${prefix}.vad.csv`, csv.join('\n') + '\n');
+
+  const openFrames = rows.filter(row => row.open).length;
+  console.log(`[VAD] ${frameCount} frames (${(frameCount * frameMs / 1000).toFixed(1)}s), ` +
+    `gate open ${((openFrames / Math.max(1, frameCount)) * 100).toFixed(1)}% at threshold ${settings.threshold}`);
+  console.log(`[VAD] Wrote ${prefix}.gated.wav and ${prefix}.vad.csv`);
+}
+
+main().catch(error => {
+  console.error('[VAD]', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
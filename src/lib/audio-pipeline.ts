@@ -0,0 +1,489 @@
+/**
+ * Microphone processing pipeline.
+ *
+ * An `AudioPipeline` owns one AudioContext, the mic source and a single output
+ * track. In between sit ordered, pluggable stages (high-pass, gain, RNNoise,
+ * fallback denoiser, VAD gate, EQ, compressor/limiter). Stages are toggled
+ * and configured at runtime by rewiring or retuning nodes inside the graph,
+ * and the mic itself can be swapped with `setInput()` - the output track never
+ * changes, so the WebRTC senders keep the same track throughout.
+ *
+ * Each pipeline is independent: several processed tracks can exist at once.
+ */
+
+import { createVadNoiseNode, type VadNoiseNode } from './vad-noise';
+import { createFallbackNoise, type FallbackNoiseMethod, type FallbackNoiseNodes } from './noise';
+import { DEFAULT_VAD_GATE_SETTINGS, type VadGateSettings } from './vad-gate';
+
+export { DEFAULT_VAD_GATE_SETTINGS, type VadGateSettings };
+
+/**
+ * One step of the chain. A stage builds its nodes the first time it is
+ * enabled, and reports them through `nodes` while it should be in the chain.
+ */
+export abstract class AudioStage<Options extends object = object> {
+  protected options: Options;
+  protected context: AudioContext | null = null;
+  private enabled: boolean;
+  // Set by the pipeline: rewire the chain (a stage went in or out)
+  onChange: () => void = () => {};
+
+  constructor(options: Options, enabled = true) {
+    this.options = { ...options };
+    this.enabled = enabled;
+  }
+
+  /**
+   * Create the stage's nodes. Called once, before the stage first goes live.
+   */
+  protected abstract build(context: AudioContext): Promise<void> | void;
+
+  /**
+   * Push the current options into the nodes.
+   */
+  protected abstract apply(): void;
+
+  /**
+   * First and last node of the stage, or null while it has none in the chain.
+   */
+  abstract get nodes(): { input: AudioNode; output: AudioNode } | null;
+
+  /**
+   * Disconnect the stage's output from whatever follows it.
+   */
+  abstract disconnect(): void;
+
+  get isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  getOptions(): Readonly<Options> {
+    return this.options;
+  }
+
+  async init(context: AudioContext) {
+    if (this.context) return;
+    await this.build(context);
+    this.context = context;
+    this.apply();
+  }
+
+  setEnabled(enabled: boolean) {
+    if (enabled && this.context === null) {
+      throw new Error('Stage not initialized');
+    }
+    this.enabled = enabled;
+    if (this.context) this.apply();
+    this.onChange();
+  }
+
+  configure(options: Partial<Options>) {
+    this.options = { ...this.options, ...options };
+    if (this.context) this.apply();
+  }
+
+  dispose() {
+    this.disconnect();
+  }
+}
+
+// === Stages ===
+
+export interface HighPassOptions {
+  frequency: number;  // Hz
+}
+
+/**
+ * Removes rumble, desk thumps and mains hum below the voice range.
+ */
+export class HighPassStage extends AudioStage<HighPassOptions> {
+  private filter: BiquadFilterNode | null = null;
+
+  protected build(context: AudioContext) {
+    this.filter = context.createBiquadFilter();
+    this.filter.type = 'highpass';
+  }
+
+  protected apply() {
+    if (this.filter) this.filter.frequency.value = this.options.frequency;
+  }
+
+  get nodes() {
+    return this.filter && this.isEnabled ? { input: this.filter, output: this.filter } : null;
+  }
+
+  disconnect() {
+    this.filter?.disconnect();
+  }
+}
+
+export interface GainOptions {
+  gain: number;  // Linear, 0-2
+}
+
+export class GainStage extends AudioStage<GainOptions> {
+  private node: GainNode | null = null;
+
+  protected build(context: AudioContext) {
+    this.node = context.createGain();
+  }
+
+  protected apply() {
+    if (this.node) this.node.gain.value = this.options.gain;
+  }
+
+  get nodes() {
+    return this.node && this.isEnabled ? { input: this.node, output: this.node } : null;
+  }
+
+  disconnect() {
+    this.node?.disconnect();
+  }
+}
+
+/**
+ * RNNoise denoising. Also computes the VAD score every frame, which the VAD
+ * gate stage uses - the two share one RNNoise node, which stays in the chain
+ * while either of them is enabled.
+ */
+export class RnnoiseStage extends AudioStage<VadGateSettings> {
+  private vad: VadNoiseNode | null = null;
+  private gateEnabled = false;
+  // Every frame's raw VAD score while RNNoise runs (calibration, adaptation)
+  onFrameScores: ((scores: Float32Array) => void) | null = null;
+
+  protected async build(context: AudioContext) {
+    this.vad = await createVadNoiseNode(context, {
+      ...this.options,
+      denoise: this.isEnabled,
+      gate: this.gateEnabled
+    });
+    this.vad.onFrameScores = (scores) => this.onFrameScores?.(scores);
+  }
+
+  protected apply() {
+    this.vad?.configure({
+      ...this.options,
+      denoise: this.isEnabled,
+      gate: this.gateEnabled
+    });
+  }
+
+  get nodes() {
+    if (!this.vad || !(this.isEnabled || this.gateEnabled)) return null;
+    return { input: this.vad.node, output: this.vad.node };
+  }
+
+  /**
+   * Called by the VAD gate stage.
+   */
+  setGate(enabled: boolean) {
+    this.gateEnabled = enabled;
+    this.apply();
+    this.onChange();
+  }
+
+  /**
+   * Smoothed VAD score (0-1) for UI display, 0 while RNNoise isn't running.
+   */
+  getVadScore(): number {
+    return this.nodes ? this.vad!.getVadScore() : 0;
+  }
+
+  getRawVadScore(): number {
+    return this.nodes ? this.vad!.getRawVadScore() : 0;
+  }
+
+  disconnect() {
+    this.vad?.node.disconnect();
+  }
+
+  dispose() {
+    this.vad?.dispose();
+  }
+}
+
+/**
+ * Plain denoising for when the RNNoise stage can't load: the older
+ * suppressors in noise.ts. No VAD score, so the VAD gate can't run with it.
+ */
+export class FallbackNoiseStage extends AudioStage {
+  private noise: FallbackNoiseNodes | null = null;
+
+  protected async build(context: AudioContext) {
+    this.noise = await createFallbackNoise(context);
+  }
+
+  protected apply() {}
+
+  get nodes() {
+    return this.noise && this.isEnabled ? { input: this.noise.input, output: this.noise.output } : null;
+  }
+
+  get method(): FallbackNoiseMethod | null {
+    return this.noise?.method ?? null;
+  }
+
+  disconnect() {
+    this.noise?.output.disconnect();
+  }
+
+  dispose() {
+    this.noise?.dispose();
+  }
+}
+
+/**
+ * Silences (or turns down) frames RNNoise doesn't consider voice, fading in
+ * and out with a short lookahead. Has no nodes of its own: it switches gating
+ * on in the RNNoise stage's node and hands it the gate settings.
+ */
+export class VadGateStage extends AudioStage<VadGateSettings> {
+  private rnnoise: RnnoiseStage;
+
+  constructor(rnnoise: RnnoiseStage, options: VadGateSettings, enabled = true) {
+    super(options, enabled);
+    this.rnnoise = rnnoise;
+  }
+
+  protected async build(context: AudioContext) {
+    await this.rnnoise.init(context);
+  }
+
+  protected apply() {
+    this.rnnoise.configure(this.options);
+    this.rnnoise.setGate(this.isEnabled);
+  }
+
+  get nodes() {
+    return null;
+  }
+
+  disconnect() {}
+}
+
+export interface EqOptions {
+  low: number;   // dB, low shelf at 200Hz
+  mid: number;   // dB, presence peak at 2.5kHz
+  high: number;  // dB, high shelf at 6kHz
+}
+
+export class EqStage extends AudioStage<EqOptions> {
+  private low: BiquadFilterNode | null = null;
+  private mid: BiquadFilterNode | null = null;
+  private high: BiquadFilterNode | null = null;
+
+  protected build(context: AudioContext) {
+    this.low = context.createBiquadFilter();
+    this.low.type = 'lowshelf';
+    this.low.frequency.value = 200;
+    this.mid = context.createBiquadFilter();
+    this.mid.type = 'peaking';
+    this.mid.frequency.value = 2500;
+    this.mid.Q.value = 1;
+    this.high = context.createBiquadFilter();
+    this.high.type = 'highshelf';
+    this.high.frequency.value = 6000;
+    this.low.connect(this.mid);
+    this.mid.connect(this.high);
+  }
+
+  protected apply() {
+    if (!this.low || !this.mid || !this.high) return;
+    this.low.gain.value = this.options.low;
+    this.mid.gain.value = this.options.mid;
+    this.high.gain.value = this.options.high;
+  }
+
+  get nodes() {
+    return this.low && this.high && this.isEnabled ? { input: this.low, output: this.high } : null;
+  }
+
+  disconnect() {
+    this.high?.disconnect();
+  }
+
+  dispose() {
+    this.low?.disconnect();
+    this.mid?.disconnect();
+    this.high?.disconnect();
+  }
+}
+
+export interface CompressorOptions {
+  threshold: number;  // dB
+  knee: number;       // dB
+  ratio: number;
+  attack: number;     // seconds
+  release: number;    // seconds
+}
+
+export const COMPRESSOR_PRESETS = {
+  // Evens out loud and quiet speech
+  compressor: { threshold: -24, knee: 12, ratio: 4, attack: 0.003, release: 0.25 },
+  // Only catches peaks, so shouting doesn't clip
+  limiter: { threshold: -3, knee: 0, ratio: 20, attack: 0.001, release: 0.1 }
+} as const satisfies Record<string, CompressorOptions>;
+
+export class CompressorStage extends AudioStage<CompressorOptions> {
+  private node: DynamicsCompressorNode | null = null;
+
+  protected build(context: AudioContext) {
+    this.node = context.createDynamicsCompressor();
+  }
+
+  protected apply() {
+    if (!this.node) return;
+    this.node.threshold.value = this.options.threshold;
+    this.node.knee.value = this.options.knee;
+    this.node.ratio.value = this.options.ratio;
+    this.node.attack.value = this.options.attack;
+    this.node.release.value = this.options.release;
+  }
+
+  get nodes() {
+    return this.node && this.isEnabled ? { input: this.node, output: this.node } : null;
+  }
+
+  disconnect() {
+    this.node?.disconnect();
+  }
+}
+
+// === Pipeline ===
+
+type OptionsOf<S> = S extends AudioStage<infer O> ? O : never;
+
+/**
+ * Mic source -> stages (in the order of the `stages` object) -> output track.
+ */
+export class AudioPipeline<Stages extends Record<string, AudioStage<object>>> {
+  readonly stages: Stages;
+  private context: AudioContext;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private destination: MediaStreamAudioDestinationNode;
+
+  constructor(stages: Stages) {
+    this.stages = stages;
+    // Default rate: Firefox can't take a mic stream into a context at another rate
+    this.context = new AudioContext();
+    this.destination = this.context.createMediaStreamDestination();
+    for (const stage of Object.values(stages)) {
+      stage.onChange = () => this.rewire();
+    }
+  }
+
+  /**
+   * The processed audio. The same stream (and track) for the pipeline's lifetime.
+   */
+  get stream(): MediaStream {
+    return this.destination.stream;
+  }
+
+  /**
+   * Build every stage that starts enabled. A stage that fails to build
+   * (e.g. RNNoise can't load) is left out rather than failing the pipeline.
+   */
+  async init() {
+    for (const [id, stage] of Object.entries(this.stages)) {
+      if (!stage.isEnabled) continue;
+      try {
+        await stage.init(this.context);
+      } catch (error) {
+        console.error(`[Audio] Stage ${id} failed to start:`, error);
+        stage.setEnabled(false);
+      }
+    }
+    this.rewire();
+  }
+
+  /**
+   * Feed a new mic stream through the pipeline (device switch, new constraints).
+   */
+  setInput(stream: MediaStream) {
+    this.source?.disconnect();
+    this.source = this.context.createMediaStreamSource(stream);
+    if (this.context.state === 'suspended') this.context.resume();
+    this.rewire();
+  }
+
+  /**
+   * Turn a stage on or off. Throws if the stage can't be built.
+   */
+  async setEnabled<K extends keyof Stages>(id: K, enabled: boolean) {
+    const stage = this.stages[id];
+    if (enabled) await stage.init(this.context);
+    stage.setEnabled(enabled);
+  }
+
+  isEnabled<K extends keyof Stages>(id: K): boolean {
+    return this.stages[id].isEnabled;
+  }
+
+  configure<K extends keyof Stages>(id: K, options: Partial<OptionsOf<Stages[K]>>) {
+    this.stages[id].configure(options);
+  }
+
+  // Reconnect source -> live stages -> destination. Runs synchronously, so the
+  // graph changes between two render quanta.
+  private rewire() {
+    if (this.context.state === 'closed') return;
+    const live = Object.values(this.stages)
+      .map(stage => stage.nodes)
+      .filter(nodes => nodes !== null);
+
+    this.source?.disconnect();
+    for (const stage of Object.values(this.stages)) {
+      stage.disconnect();
+    }
+
+    let previous: AudioNode | null = this.source;
+    for (const { input, output } of live) {
+      previous?.connect(input);
+      previous = output;
+    }
+    previous?.connect(this.destination);
+  }
+
+  async close() {
+    this.source?.disconnect();
+    this.source = null;
+    for (const stage of Object.values(this.stages)) {
+      stage.dispose();
+    }
+    try {
+      await this.context.close();
+    } catch (e) {
+      console.error('[Audio] Error closing pipeline AudioContext:', e);
+    }
+  }
+}
+
+export interface VoicePipelineSettings {
+  gain: number;
+  noiseFilter: boolean;
+  gate: VadGateSettings;
+  highPass: boolean;
+  eq: boolean;
+  compressor: boolean;
+}
+
+/**
+ * The mic chain used in rooms:
+ * high-pass -> gain -> RNNoise (or the fallback) -> VAD gate -> EQ -> compressor.
+ * The fallback starts disabled; the caller turns it on if RNNoise fails.
+ */
+export function createVoicePipeline(settings: VoicePipelineSettings) {
+  const rnnoise = new RnnoiseStage(settings.gate, settings.noiseFilter);
+  return new AudioPipeline({
+    highpass: new HighPassStage({ frequency: 80 }, settings.highPass),
+    gain: new GainStage({ gain: settings.gain }),
+    rnnoise,
+    fallback: new FallbackNoiseStage({}, false),
+    vad: new VadGateStage(rnnoise, settings.gate, settings.noiseFilter),
+    eq: new EqStage({ low: -2, mid: 3, high: 1 }, settings.eq),
+    compressor: new CompressorStage({ ...COMPRESSOR_PRESETS.compressor }, settings.compressor)
+  });
+}
+
+export type VoicePipeline = ReturnType<typeof createVoicePipeline>;
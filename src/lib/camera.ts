@@ -1,3 +1,5 @@
+import type { VideoLayer } from './protocol';
+
 // Camera constraints - 480p default for bandwidth efficiency
 export const cameraConstraints: MediaTrackConstraints = {
   width: { ideal: 640 },
@@ -6,6 +8,40 @@ export const cameraConstraints: MediaTrackConstraints = {
   facingMode: 'user'
 };
 
+export interface CameraEncoding {
+  scaleResolutionDownBy: number;
+  maxBitrate: number;     // bits/s
+  maxFramerate: number;
+}
+
+// Encoding settings for each size a viewer can ask for (see `video-layer`).
+// This is not simulcast or SVC: with no SFU in a mesh, nobody could pick a
+// layer out of a multi-layer stream. Each connection has its own encoder and
+// one encoding, which is retuned to the size that viewer asked for.
+export const CAMERA_ENCODINGS: Record<Exclude<VideoLayer, 'off'>, CameraEncoding> = {
+  low: { scaleResolutionDownBy: 4, maxBitrate: 100_000, maxFramerate: 15 },   // 160x120 - strip cards
+  mid: { scaleResolutionDownBy: 2, maxBitrate: 300_000, maxFramerate: 24 },   // 320x240 - grid tiles
+  high: { scaleResolutionDownBy: 1, maxBitrate: 800_000, maxFramerate: 24 }   // 640x480 - theater, small grids
+};
+
+// Sent until the viewer says what it needs
+export const DEFAULT_VIDEO_LAYER: VideoLayer = 'mid';
+
+export type TileView = 'grid' | 'strip' | 'theater' | 'hidden';
+
+/**
+ * Size that fits a camera tile. Grids of one or two peers get tiles large
+ * enough for full resolution.
+ */
+export function cameraLayerForTile(view: TileView, gridSize = 0): VideoLayer {
+  switch (view) {
+    case 'theater': return 'high';
+    case 'grid': return gridSize <= 2 ? 'high' : 'mid';
+    case 'strip': return 'low';
+    case 'hidden': return 'off';
+  }
+}
+
 /**
  * Acquire camera stream with optional device selection.
  */
@@ -0,0 +1,14 @@
+// Saving files generated in the browser (recordings, diagnostics reports).
+
+/**
+ * Download a blob as a file through a temporary object URL.
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoked a little later: the download may not have started when click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,99 @@
+// Connection health monitoring for audio and screen share connections.
+// A dropped connection (e.g. after a Wi-Fi roam) first gets ICE restarts,
+// and if those don't bring it back, it is rebuilt from scratch.
+
+export type ConnectionHealth = 'connected' | 'reconnecting';
+
+// 'disconnected' often recovers by itself within a few seconds
+const DISCONNECTED_GRACE_MS = 4000;
+// Time each ICE restart gets before the next step
+const RESTART_TIMEOUT_MS = 8000;
+const MAX_ICE_RESTARTS = 2;
+
+export interface RecoveryHandlers {
+  restart?: () => void;   // Start an ICE restart - omitted on the side that can't offer
+  rebuild?: () => void;   // Replace the connection - omitted on the side that waits for the other
+  onHealth?: (health: ConnectionHealth) => void;
+}
+
+/**
+ * Watches an RTCPeerConnection and steps through recovery when it drops:
+ * grace period, ICE restarts, then a rebuild.
+ */
+export class ConnectionMonitor {
+  private pc: RTCPeerConnection;
+  private label: string;
+  private handlers: RecoveryHandlers;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private health: ConnectionHealth = 'connected';
+  private disposed = false;
+
+  constructor(pc: RTCPeerConnection, label: string, handlers: RecoveryHandlers) {
+    this.pc = pc;
+    this.label = label;
+    this.handlers = handlers;
+    pc.addEventListener('connectionstatechange', this.onStateChange);
+  }
+
+  private onStateChange = () => {
+    switch (this.pc.connectionState) {
+      case 'connected':
+        this.clearTimer();
+        this.attempts = 0;
+        this.setHealth('connected');
+        break;
+      case 'disconnected':
+        this.setHealth('reconnecting');
+        if (!this.timer) this.schedule(DISCONNECTED_GRACE_MS);
+        break;
+      case 'failed':
+        this.setHealth('reconnecting');
+        this.clearTimer();
+        this.recover();
+        break;
+    }
+  };
+
+  private recover() {
+    if (this.disposed) return;
+    if (this.attempts < MAX_ICE_RESTARTS) {
+      this.attempts++;
+      console.log(`[RTC] ICE restart ${this.attempts}/${MAX_ICE_RESTARTS} for ${this.label}`);
+      this.handlers.restart?.();
+      this.schedule(RESTART_TIMEOUT_MS);
+    } else if (this.handlers.rebuild) {
+      console.log(`[RTC] Rebuilding connection for ${this.label}`);
+      const rebuild = this.handlers.rebuild;
+      this.dispose();
+      rebuild();
+    }
+  }
+
+  private schedule(ms: number) {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (this.pc.connectionState !== 'connected') this.recover();
+    }, ms);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private setHealth(health: ConnectionHealth) {
+    if (health === this.health) return;
+    this.health = health;
+    this.handlers.onHealth?.(health);
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.clearTimer();
+    this.pc.removeEventListener('connectionstatechange', this.onStateChange);
+  }
+}
@@ -0,0 +1,108 @@
+// ICE servers for peer connections, configured by the deployment (see party/ice.ts).
+// Until they are loaded, and if loading fails, connections use Google's public
+// STUN server, as before the deployment could configure any. A LAN build uses
+// host candidates only and never contacts an outside server.
+
+import PartySocket from 'partysocket';
+import type { IceConfig } from './protocol';
+
+// Renew TURN credentials this long before they expire (or a tenth of their lifetime, if shorter)
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// Retry a failed renewal after this long, while the old credentials still work
+const REFRESH_RETRY_MS = 30 * 1000;
+
+const FALLBACK_CONFIG: RTCConfiguration = import.meta.env.VITE_ICE_MODE === 'lan'
+  ? { iceServers: [] }
+  : { iceServers: [{ urls: 'stun:stun.l.google.com:19302' }] };
+
+let rtcConfig = FALLBACK_CONFIG;
+let loaded = false; // Whether rtcConfig came from the server
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Connections made with createPeerConnection(), so renewed credentials reach them too
+const peerConnections = new Set<RTCPeerConnection>();
+
+/**
+ * Configuration for new RTCPeerConnections.
+ */
+export function getRtcConfig(): RTCConfiguration {
+  return rtcConfig;
+}
+
+/**
+ * An RTCPeerConnection with the current ICE servers, kept up to date when
+ * the TURN credentials are renewed during the call.
+ */
+export function createPeerConnection(): RTCPeerConnection {
+  const pc = new RTCPeerConnection(rtcConfig);
+  forgetClosedConnections();
+  peerConnections.add(pc);
+  return pc;
+}
+
+// close() fires no event; closed connections are dropped whenever the set is touched
+function forgetClosedConnections() {
+  for (const pc of peerConnections) {
+    if (pc.signalingState === 'closed') peerConnections.delete(pc);
+  }
+}
+
+// Only used by later ICE gathering: the next ICE restart picks up the new servers
+function applyToLiveConnections() {
+  forgetClosedConnections();
+  for (const pc of peerConnections) {
+    try {
+      pc.setConfiguration({ ...pc.getConfiguration(), iceServers: rtcConfig.iceServers });
+    } catch (e) {
+      console.warn('[ICE] Could not update a connection\'s ICE servers:', e);
+    }
+  }
+}
+
+/**
+ * Fetch the ICE servers for this room. Requires an admitted peer's id and
+ * resume token, so it's called on every welcome. TURN credentials are
+ * renewed shortly before they expire and handed to live connections.
+ * A `VITE_ICE_MODE=lan` build skips the request entirely.
+ */
+export async function loadIceConfig(host: string, room: string, peerId: string, resumeToken: string) {
+  if (import.meta.env.VITE_ICE_MODE === 'lan') {
+    console.log('[ICE] LAN only (build setting)');
+    return;
+  }
+
+  stopIceRefresh();
+  const reload = () => loadIceConfig(host, room, peerId, resumeToken);
+  try {
+    const res = await PartySocket.fetch({ host, room, query: { peerId, resumeToken } });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const config = await res.json() as IceConfig;
+    rtcConfig = { iceServers: config.iceServers };
+    loaded = true;
+    applyToLiveConnections();
+    console.log(`[ICE] ${config.lanOnly ? 'LAN only' : `${config.iceServers.length} server entries`}`);
+
+    if (config.expiresAt) {
+      const remaining = config.expiresAt - Date.now();
+      const delay = Math.max(0, remaining - Math.min(REFRESH_MARGIN_MS, remaining / 10));
+      refreshTimer = setTimeout(reload, delay);
+    }
+  } catch (e) {
+    if (!loaded) {
+      console.warn('[ICE] Could not load ICE servers, using public STUN only:', e);
+      return;
+    }
+    // A renewal that failed mid-call is worth another try before the old credentials run out
+    console.warn('[ICE] Could not renew ICE servers, retrying:', e);
+    forgetClosedConnections();
+    if (peerConnections.size > 0) refreshTimer = setTimeout(reload, REFRESH_RETRY_MS);
+  }
+}
+
+/**
+ * Stop renewing credentials (leaving the room).
+ */
+export function stopIceRefresh() {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+}
@@ -0,0 +1,35 @@
+// Stable client identity, generated once per browser and kept in localStorage.
+// Unlike the connection id it survives reloads and socket reconnects, so
+// per-peer preferences and name reservations follow the person.
+
+const CLIENT_ID_KEY = 'clientId';
+
+function randomId(): string {
+  const bytes = new Uint8Array(16);
+  if (typeof crypto !== 'undefined' && 'getRandomValues' in crypto) {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+let cachedId: string | null = null;
+
+/**
+ * Get this browser's client id, creating and storing it on first use.
+ */
+export function getClientId(): string {
+  if (cachedId) return cachedId;
+  try {
+    cachedId = localStorage.getItem(CLIENT_ID_KEY);
+    if (!cachedId) {
+      cachedId = randomId();
+      localStorage.setItem(CLIENT_ID_KEY, cachedId);
+    }
+  } catch {
+    // Storage unavailable (private mode etc.) - stable for this page load only
+    cachedId = randomId();
+  }
+  return cachedId;
+}
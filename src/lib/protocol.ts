@@ -0,0 +1,103 @@
+// Signaling protocol shared by the PartyKit server (party/index.ts) and the browser.
+// Bump PROTOCOL_VERSION on any incompatible change to the messages below; clients
+// send it when connecting and the server turns away mismatched ones.
+
+export const PROTOCOL_VERSION = 8;
+
+// Query parameter carrying the client's protocol version
+export const PROTOCOL_VERSION_PARAM = "v";
+
+// Concurrent screen shares per room; further sharers wait in a queue
+export const MAX_SCREEN_SHARERS = 4;
+
+// Camera sizes a viewer can ask a peer to send it, from "off" (tile not showing
+// the camera) up to full resolution. Not simulcast layers: the sender retunes
+// its one encoding for that viewer. Settings are in src/lib/camera.ts.
+export const VIDEO_LAYERS = ["off", "low", "mid", "high"] as const;
+export type VideoLayer = typeof VIDEO_LAYERS[number];
+
+// Reasons sent with an "error" message
+export type ErrorReason =
+  | "passphrase-required"  // Room is protected and no passphrase was given
+  | "passphrase-invalid"   // Room is protected and the passphrase didn't match
+  | "passphrase-throttled" // Too many passphrase attempts from this client; wait and retry
+  | "passphrase-not-set"   // Asked to set a passphrase on a room others are in; it stays open
+  | "room-locked"          // Room is locked to new connections
+  | "kicked"               // Removed from the room by the host
+  | "not-host"             // A host-only action was attempted by someone else
+  | "invalid-message"      // The message failed schema validation (see `detail`)
+  | "rate-limited"         // Messages are being dropped for arriving too fast
+  | "flooding"             // Disconnected for repeatedly exceeding limits
+  | "screen-slots-full"    // Every screen share slot is taken; join the queue instead
+  | "protocol-mismatch";   // Client and server speak different protocol versions
+
+// Presence snapshot of a peer, as sent in the welcome message
+export interface PeerInfo {
+  id: string;        // Peer id (survives a resumed connection, not a reload)
+  clientKey: string; // Stable per browser (a hash of its client id) - key for anything remembered about a person
+  name: string;
+  muted: boolean;
+  deafened: boolean;
+  cameraEnabled: boolean;
+  screenSharing: boolean;
+  recording: boolean;  // Recording the room locally (see src/lib/recording.ts)
+}
+
+// ICE servers for the room's peers, from GET on the room URL
+// (query: peerId, resumeToken - only admitted peers get TURN credentials)
+export interface IceConfig {
+  iceServers: RTCIceServer[];
+  lanOnly: boolean;           // Host candidates only; no outside servers
+  expiresAt: number | null;   // When issued TURN credentials stop working (ms)
+}
+
+// Signaling messages. `from` is filled in by the server on relayed messages;
+// `peerId` on status messages is the sender as seen by the other peers.
+export type SignalMessage =
+  // Connection & identity
+  | { type: "welcome"; protocolVersion: number; peerId: string; name: string; peers: PeerInfo[]; locked: boolean; passphraseProtected: boolean; hostId: string | null; resumeToken: string; resumed: boolean }
+  | { type: "join"; peerId: string; clientKey: string; name: string; muted: boolean; deafened: boolean; cameraEnabled: boolean; screenSharing: boolean; recording: boolean }
+  | { type: "leave"; peerId: string }  // Also sent by a client leaving on purpose (no resume grace)
+  | { type: "rename"; peerId: string; name: string }
+  | { type: "rename-request"; name: string }
+  | { type: "error"; reason: ErrorReason; detail?: string }
+  // Room access
+  | { type: "lock-request"; locked: boolean }
+  | { type: "room-locked"; locked: boolean }
+  // Host / moderation (host-only requests are checked by the server)
+  | { type: "host"; peerId: string | null }
+  | { type: "host-key"; key: string }
+  | { type: "kick"; peerId: string }
+  | { type: "mute-all" }
+  | { type: "mute-request"; from: string }
+  | { type: "stop-share"; peerId: string }
+  | { type: "transfer-host"; peerId: string }
+  // Audio WebRTC signaling
+  | { type: "offer"; from: string; to: string; offer: RTCSessionDescriptionInit }
+  | { type: "answer"; from: string; to: string; answer: RTCSessionDescriptionInit }
+  | { type: "ice-candidate"; from: string; to: string; candidate: RTCIceCandidateInit }
+  | { type: "peer-reset"; from: string; to: string }  // Sender rebuilt its connection; drop ours and await an offer
+  | { type: "mute-status"; peerId: string; muted: boolean }
+  | { type: "deafen-status"; peerId: string; deafened: boolean }
+  // Camera (presence layer - no subscription needed)
+  | { type: "camera-status"; peerId: string; enabled: boolean }
+  | { type: "video-layer"; from: string; to: string; layer: VideoLayer }  // Camera layer the sender's tile needs from `to`
+  // Recording (everyone is shown who is recording)
+  | { type: "recording-status"; peerId: string; recording: boolean }
+  // Screen share announcements
+  | { type: "screen-start"; peerId: string }
+  | { type: "screen-stop"; peerId: string }
+  // Screen share queue (position is 1-based, null once out of line)
+  | { type: "screen-queue-join" }
+  | { type: "screen-queue-leave" }
+  | { type: "screen-queue"; position: number | null }
+  | { type: "screen-slot"; expiresAt: number }
+  // Screen share subscription flow. Clients address the sharer; with relaying on
+  // the server passes the request to whichever peer will send the share (the
+  // sharer or a viewer forwarding it), naming the share in `sharer`.
+  | { type: "screen-subscribe"; from: string; to: string; sharer: string }
+  | { type: "screen-unsubscribe"; from: string; to: string; sharer: string }
+  // Screen share WebRTC signaling (separate connections, one per share and sender)
+  | { type: "screen-offer"; from: string; to: string; sharer: string; offer: RTCSessionDescriptionInit }
+  | { type: "screen-answer"; from: string; to: string; sharer: string; answer: RTCSessionDescriptionInit }
+  | { type: "screen-ice"; from: string; to: string; sharer: string; candidate: RTCIceCandidateInit };
@@ -0,0 +1,299 @@
+// Local room recording.
+// Records a mix of everyone plus one file per speaker (and optionally one
+// screen share) with MediaRecorder, alongside a manifest of who was there
+// when and when they spoke. Everything stays in the browser until downloaded.
+//
+// Each speaker goes through Web Audio into its own recording destination, so a
+// speaker's stream can be swapped (device switch, rebuilt connection) without
+// cutting their file.
+
+import { downloadBlob } from './download';
+import { createZip } from './zip';
+
+const AUDIO_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+const VIDEO_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+const TIMESLICE_MS = 1000;
+// Pauses shorter than this don't end a speaking segment
+const SPEAKING_HANGOVER_MS = 500;
+
+export interface RecordingFile {
+  filename: string;
+  kind: 'mix' | 'speaker' | 'screen';
+  peerId?: string;
+  name?: string;
+  startMs: number;  // Offset from the start of the recording
+  blob: Blob;
+}
+
+export interface SpeakerManifest {
+  peerId: string;
+  name: string;
+  file: string;
+  joinedMs: number;
+  leftMs: number | null;
+  speaking: [number, number][];  // [start, end] offsets in ms
+}
+
+export interface RecordingManifest {
+  room: string;
+  startedAt: string;
+  durationMs: number;
+  mix: string;
+  screen: { peerId: string; name: string; file: string; startMs: number } | null;
+  speakers: SpeakerManifest[];
+  events: { ms: number; type: 'join' | 'leave'; peerId: string; name: string }[];
+}
+
+export interface RecordingResult {
+  files: RecordingFile[];
+  manifest: RecordingManifest;
+}
+
+interface Track {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  done: Promise<Blob>;
+}
+
+interface Speaker {
+  peerId: string;
+  name: string;
+  source: MediaStreamAudioSourceNode;
+  destination: MediaStreamAudioDestinationNode;
+  track: Track;
+  joinedMs: number;
+  leftMs: number | null;
+  speaking: [number, number][];
+  speakingSince: number | null;
+  silentSince: number | null;
+}
+
+function pickType(candidates: string[]): string | undefined {
+  return candidates.find(type => MediaRecorder.isTypeSupported(type));
+}
+
+function extensionFor(type: string): string {
+  if (type.includes('ogg')) return 'ogg';
+  if (type.includes('mp4')) return type.startsWith('video') ? 'mp4' : 'm4a';
+  return 'webm';
+}
+
+// File-name-safe version of a display name
+function slug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'speaker';
+}
+
+function record(stream: MediaStream, mimeType: string | undefined): Track {
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  const done = new Promise<Blob>(resolve => {
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType }));
+  });
+  recorder.start(TIMESLICE_MS);
+  return { recorder, chunks, done };
+}
+
+function finish(track: Track): Promise<Blob> {
+  if (track.recorder.state !== 'inactive') track.recorder.stop();
+  return track.done;
+}
+
+/**
+ * Check if recording is supported in this browser.
+ */
+export function isRecordingSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' && !!pickType(AUDIO_TYPES);
+}
+
+export class RoomRecorder {
+  private room: string;
+  private context: AudioContext;
+  private mixDestination: MediaStreamAudioDestinationNode;
+  private mix: Track;
+  private speakers = new Map<string, Speaker>();
+  private finished: Speaker[] = [];
+  private events: RecordingManifest['events'] = [];
+  private screen: { peerId: string; name: string; startMs: number; track: Track } | null = null;
+  private audioType = pickType(AUDIO_TYPES);
+  private startedAt = Date.now();
+
+  constructor(room: string) {
+    this.room = room;
+    this.context = new AudioContext();
+    this.mixDestination = this.context.createMediaStreamDestination();
+    this.mix = record(this.mixDestination.stream, this.audioType);
+    console.log(`[Recording] Started (${this.mix.recorder.mimeType})`);
+  }
+
+  private now(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  /**
+   * Record a speaker, or switch a speaker already being recorded to a new stream.
+   */
+  addSpeaker(peerId: string, name: string, stream: MediaStream) {
+    if (stream.getAudioTracks().length === 0) return;
+    const source = this.context.createMediaStreamSource(stream);
+    const existing = this.speakers.get(peerId);
+    if (existing) {
+      existing.source.disconnect();
+      existing.source = source;
+      existing.name = name;
+      source.connect(existing.destination);
+      source.connect(this.mixDestination);
+      return;
+    }
+
+    const destination = this.context.createMediaStreamDestination();
+    source.connect(destination);
+    source.connect(this.mixDestination);
+    const joinedMs = this.now();
+    this.speakers.set(peerId, {
+      peerId,
+      name,
+      source,
+      destination,
+      track: record(destination.stream, this.audioType),
+      joinedMs,
+      leftMs: null,
+      speaking: [],
+      speakingSince: null,
+      silentSince: null
+    });
+    this.events.push({ ms: joinedMs, type: 'join', peerId, name });
+  }
+
+  /**
+   * A speaker left: their file ends here.
+   */
+  removeSpeaker(peerId: string) {
+    const speaker = this.speakers.get(peerId);
+    if (!speaker) return;
+    this.setSpeaking(peerId, false, true);
+    speaker.source.disconnect();
+    speaker.leftMs = this.now();
+    finish(speaker.track);
+    this.speakers.delete(peerId);
+    this.finished.push(speaker);
+    this.events.push({ ms: speaker.leftMs, type: 'leave', peerId, name: speaker.name });
+  }
+
+  /**
+   * Feed the speaking indicator; short pauses are bridged so segments
+   * follow phrases rather than syllables.
+   */
+  setSpeaking(peerId: string, speaking: boolean, force = false) {
+    const speaker = this.speakers.get(peerId);
+    if (!speaker) return;
+    const now = this.now();
+    if (speaking) {
+      speaker.speakingSince ??= now;
+      speaker.silentSince = null;
+      return;
+    }
+    if (speaker.speakingSince === null) return;
+    speaker.silentSince ??= now;
+    if (force || now - speaker.silentSince >= SPEAKING_HANGOVER_MS) {
+      speaker.speaking.push([speaker.speakingSince, speaker.silentSince]);
+      speaker.speakingSince = null;
+      speaker.silentSince = null;
+    }
+  }
+
+  /**
+   * Record one screen share (video, plus its audio if shared) as its own file.
+   */
+  setScreen(peerId: string, name: string, stream: MediaStream) {
+    if (this.screen) return;
+    const type = pickType(VIDEO_TYPES);
+    this.screen = { peerId, name, startMs: this.now(), track: record(stream, type) };
+  }
+
+  /**
+   * Stop everything and collect the files and manifest.
+   */
+  async stop(): Promise<RecordingResult> {
+    for (const peerId of [...this.speakers.keys()]) {
+      this.setSpeaking(peerId, false, true);
+    }
+    const durationMs = this.now();
+    const speakers = [...this.finished, ...this.speakers.values()].sort((a, b) => a.joinedMs - b.joinedMs);
+    const prefix = `lospeak-${this.room}-${new Date(this.startedAt).toISOString().replace(/[:.]/g, '-')}`;
+    const ext = this.audioType ? extensionFor(this.audioType) : 'webm';
+
+    const files: RecordingFile[] = [{
+      filename: `${prefix}-mix.${ext}`,
+      kind: 'mix',
+      startMs: 0,
+      blob: await finish(this.mix)
+    }];
+    const usedNames = new Set<string>();
+    const speakerManifests: SpeakerManifest[] = [];
+    for (const speaker of speakers) {
+      let base = slug(speaker.name);
+      for (let i = 2; usedNames.has(base); i++) base = `${slug(speaker.name)}-${i}`;
+      usedNames.add(base);
+      const filename = `${prefix}-${base}.${ext}`;
+      files.push({
+        filename,
+        kind: 'speaker',
+        peerId: speaker.peerId,
+        name: speaker.name,
+        startMs: speaker.joinedMs,
+        blob: await finish(speaker.track)
+      });
+      speakerManifests.push({
+        peerId: speaker.peerId,
+        name: speaker.name,
+        file: filename,
+        joinedMs: speaker.joinedMs,
+        leftMs: speaker.leftMs,
+        speaking: speaker.speaking
+      });
+    }
+
+    let screen: RecordingManifest['screen'] = null;
+    if (this.screen) {
+      const blob = await finish(this.screen.track);
+      const filename = `${prefix}-screen.${extensionFor(blob.type || 'video/webm')}`;
+      files.push({ filename, kind: 'screen', peerId: this.screen.peerId, name: this.screen.name, startMs: this.screen.startMs, blob });
+      screen = { peerId: this.screen.peerId, name: this.screen.name, file: filename, startMs: this.screen.startMs };
+    }
+
+    for (const speaker of this.speakers.values()) speaker.source.disconnect();
+    this.speakers.clear();
+    await this.context.close();
+    console.log(`[Recording] Stopped after ${Math.round(durationMs / 1000)}s, ${files.length} files`);
+
+    return {
+      files,
+      manifest: {
+        room: this.room,
+        startedAt: new Date(this.startedAt).toISOString(),
+        durationMs,
+        mix: files[0].filename,
+        screen,
+        speakers: speakerManifests,
+        events: this.events
+      }
+    };
+  }
+}
+
+/**
+ * Download every file of a recording plus its manifest, as one zip: browsers
+ * block all but the first of several downloads started without a click.
+ */
+export async function downloadRecording(result: RecordingResult) {
+  const prefix = result.manifest.mix.replace(/-mix\.\w+$/, '');
+  const manifest = new Blob([JSON.stringify(result.manifest, null, 2)], { type: 'application/json' });
+  const zip = await createZip([
+    ...result.files.map(file => ({ name: file.filename, blob: file.blob })),
+    { name: `${prefix}-manifest.json`, blob: manifest }
+  ]);
+  downloadBlob(zip, `${prefix}.zip`);
+}
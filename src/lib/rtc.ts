@@ -1,4 +1,8 @@
 import type { PeerState } from './types';
+import { ConnectionMonitor, type ConnectionHealth } from './health';
+import { createPeerConnection } from './ice';
+import { CAMERA_ENCODINGS, DEFAULT_VIDEO_LAYER } from './camera';
+import type { VideoLayer } from './protocol';
 
 // Audio constraints optimized for voice chat
 // Browser's built-in processing provides first-pass filtering,
@@ -13,36 +17,139 @@ export const audioConstraints: MediaStreamConstraints = {
   video: false
 };
 
-// RTC configuration - no STUN/TURN needed for LAN
-const rtcConfig: RTCConfiguration = {
-  iceServers: [
-    // Include public STUN server as fallback for non-LAN scenarios
-    { urls: 'stun:stun.l.google.com:19302' }
-  ]
+export type AudioPresetId = 'voice-low' | 'voice-hd' | 'music';
+
+// How we send our voice: Opus settings plus the capture processing that suits them
+export interface AudioPreset {
+  id: AudioPresetId;
+  label: string;
+  maxBitrate: number;    // bits/s
+  stereo: boolean;
+  dtx: boolean;          // Discontinuous transmission - next to nothing sent in silence
+  fec: boolean;          // In-band forward error correction
+  ptime: number;         // ms of audio per packet
+  processing: boolean;   // Echo cancellation, AGC, noise suppression and the RNNoise VAD gate
+}
+
+export const AUDIO_PRESETS: Record<AudioPresetId, AudioPreset> = {
+  'voice-low': { id: 'voice-low', label: 'Voice (low bandwidth)', maxBitrate: 16_000, stereo: false, dtx: true, fec: true, ptime: 40, processing: true },
+  'voice-hd': { id: 'voice-hd', label: 'Voice HD', maxBitrate: 40_000, stereo: false, dtx: false, fec: true, ptime: 20, processing: true },
+  // Instruments would be cancelled, levelled and gated out by voice processing
+  'music': { id: 'music', label: 'Music / stereo', maxBitrate: 128_000, stereo: true, dtx: false, fec: true, ptime: 20, processing: false }
 };
 
+export const DEFAULT_AUDIO_PRESET: AudioPresetId = 'voice-hd';
+
+/**
+ * Microphone constraints for a preset.
+ */
+export function getAudioConstraints(preset: AudioPreset): MediaTrackConstraints {
+  if (preset.processing) {
+    return { ...audioConstraints.audio as MediaTrackConstraints };
+  }
+  return {
+    echoCancellation: false,
+    noiseSuppression: false,
+    autoGainControl: false,
+    channelCount: preset.stereo ? 2 : 1,
+    sampleRate: 48000
+  };
+}
+
+/**
+ * Rewrite the Opus parameters in a session description for a preset.
+ * Applied to the *remote* description: an Opus encoder follows what the
+ * receiving side's SDP asks for, so this makes our preset decide how we send.
+ */
+export function applyOpusPreset(sdp: string, preset: AudioPreset): string {
+  const lines = sdp.split('\r\n');
+  const opus = new Set<string>();
+  for (const line of lines) {
+    const match = line.match(/^a=rtpmap:(\d+) opus\/48000/i);
+    if (match) opus.add(match[1]);
+  }
+  if (opus.size === 0) return sdp;
+
+  const params: Record<string, string> = {
+    stereo: preset.stereo ? '1' : '0',
+    'sprop-stereo': preset.stereo ? '1' : '0',
+    usedtx: preset.dtx ? '1' : '0',
+    useinbandfec: preset.fec ? '1' : '0',
+    maxaveragebitrate: String(preset.maxBitrate)
+  };
+
+  const result: string[] = [];
+  let inAudio = false;
+  for (const line of lines) {
+    if (line.startsWith('m=')) inAudio = line.startsWith('m=audio');
+    // Replaced below, next to the Opus parameters
+    if (inAudio && (line.startsWith('a=ptime:') || line.startsWith('a=maxptime:'))) continue;
+
+    const fmtp = line.match(/^a=fmtp:(\d+) (.*)$/);
+    if (!fmtp || !opus.has(fmtp[1])) {
+      result.push(line);
+      continue;
+    }
+    const existing = new Map<string, string>();
+    for (const part of fmtp[2].split(';')) {
+      const [key, value] = part.trim().split('=');
+      if (key) existing.set(key, value ?? '');
+    }
+    for (const [key, value] of Object.entries(params)) existing.set(key, value);
+    result.push(`a=fmtp:${fmtp[1]} ${[...existing].map(([k, v]) => `${k}=${v}`).join(';')}`);
+    result.push(`a=ptime:${preset.ptime}`);
+  }
+  return result.join('\r\n');
+}
+
+/**
+ * Audio (and camera) connection to one peer.
+ *
+ * Negotiation follows the perfect negotiation pattern: either side may send an
+ * offer whenever its tracks change. On glare the polite side rolls back its own
+ * offer and answers, the impolite side ignores the incoming one. Description
+ * changes and ICE candidates are applied one at a time, and changes that come up
+ * mid-negotiation are offered once the connection is stable again.
+ *
+ * A dropped connection is restarted (ICE restart, through the same negotiation)
+ * and, failing that, handed to `onRebuild` on the impolite side.
+ *
+ * Outgoing audio follows the current `AudioPreset` (see applyOpusPreset), and
+ * outgoing camera video the size the peer last asked for (see CAMERA_ENCODINGS).
+ */
 export class PeerConnection {
   pc: RTCPeerConnection;
   peerId: string;
+  polite: boolean;
   onIceCandidate: (candidate: RTCIceCandidateInit) => void;
   onAudioTrack: (stream: MediaStream) => void;
   onVideoTrack: (stream: MediaStream) => void;
-  onNegotiationNeeded: () => void;
+  onDescription: (description: RTCSessionDescriptionInit) => void;
+  onHealth: (health: ConnectionHealth) => void = () => {};
+  onRebuild: () => void = () => {};
+  private monitor: ConnectionMonitor;
+  private audioPreset: AudioPreset = AUDIO_PRESETS[DEFAULT_AUDIO_PRESET];
   private videoSender: RTCRtpSender | null = null;
+  private videoLayer: VideoLayer = DEFAULT_VIDEO_LAYER;
+  private ignoreOffer = false;
+  private negotiationPending = false;
+  private queue: Promise<void> = Promise.resolve();
 
   constructor(
     peerId: string,
+    polite: boolean,
     onIceCandidate: (candidate: RTCIceCandidateInit) => void,
     onAudioTrack: (stream: MediaStream) => void,
     onVideoTrack?: (stream: MediaStream) => void,
-    onNegotiationNeeded?: () => void
+    onDescription?: (description: RTCSessionDescriptionInit) => void
   ) {
     this.peerId = peerId;
+    this.polite = polite;
     this.onIceCandidate = onIceCandidate;
     this.onAudioTrack = onAudioTrack;
     this.onVideoTrack = onVideoTrack || (() => {});
-    this.onNegotiationNeeded = onNegotiationNeeded || (() => {});
-    this.pc = new RTCPeerConnection(rtcConfig);
+    this.onDescription = onDescription || (() => {});
+    this.pc = createPeerConnection();
 
     this.pc.onicecandidate = (event) => {
       if (event.candidate) {
@@ -61,15 +168,22 @@ export class PeerConnection {
       }
     };
 
-    // Handle renegotiation needed (e.g., when adding/removing video track)
+    // Fired for the first tracks and whenever they change (e.g. camera on/off)
     this.pc.onnegotiationneeded = () => {
       console.log(`[RTC] Negotiation needed for ${peerId}`);
-      this.onNegotiationNeeded();
+      this.negotiate();
     };
 
     this.pc.onconnectionstatechange = () => {
       console.log(`[RTC] Connection to ${peerId}: ${this.pc.connectionState}`);
     };
+
+    // Both sides restart ICE (glare is handled above); only one rebuilds
+    this.monitor = new ConnectionMonitor(this.pc, peerId, {
+      restart: () => this.pc.restartIce(),
+      rebuild: polite ? undefined : () => this.onRebuild(),
+      onHealth: (health) => this.onHealth(health)
+    });
   }
 
   addLocalStream(stream: MediaStream) {
@@ -78,32 +192,110 @@ export class PeerConnection {
     });
   }
 
-  async createOffer(): Promise<RTCSessionDescriptionInit> {
-    const offer = await this.pc.createOffer();
-    await this.pc.setLocalDescription(offer);
-    return offer;
+  // Run negotiation steps one at a time, then offer anything that was deferred
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue
+      .then(task)
+      .catch(e => console.error(`[RTC] Negotiation with ${this.peerId} failed:`, e))
+      .then(() => {
+        if (this.negotiationPending && this.pc.signalingState === 'stable') {
+          this.negotiate();
+        }
+      });
+    return this.queue;
   }
 
-  async handleOffer(offer: RTCSessionDescriptionInit): Promise<RTCSessionDescriptionInit> {
-    await this.pc.setRemoteDescription(new RTCSessionDescription(offer));
-    const answer = await this.pc.createAnswer();
-    await this.pc.setLocalDescription(answer);
-    return answer;
+  /**
+   * Send an offer reflecting the current tracks, or defer it until the
+   * negotiation in progress has finished.
+   */
+  negotiate(): Promise<void> {
+    return this.enqueue(async () => {
+      if (this.pc.signalingState === 'closed') return;
+      if (this.pc.signalingState !== 'stable') {
+        this.negotiationPending = true;
+        return;
+      }
+      this.negotiationPending = false;
+      await this.pc.setLocalDescription();
+      this.onDescription(this.pc.localDescription!.toJSON());
+    });
   }
 
-  async handleAnswer(answer: RTCSessionDescriptionInit) {
-    await this.pc.setRemoteDescription(new RTCSessionDescription(answer));
+  /**
+   * Apply an offer or answer from the peer. Offers are answered through
+   * `onDescription`.
+   */
+  handleRemoteDescription(description: RTCSessionDescriptionInit): Promise<void> {
+    return this.enqueue(async () => {
+      const collision = description.type === 'offer' && this.pc.signalingState !== 'stable';
+      this.ignoreOffer = !this.polite && collision;
+      if (this.ignoreOffer) {
+        console.log(`[RTC] Ignoring colliding offer from ${this.peerId}`);
+        return;
+      }
+      if (collision) {
+        // Give way, then offer our own changes again after answering
+        console.log(`[RTC] Rolling back our offer to ${this.peerId}`);
+        await this.pc.setLocalDescription({ type: 'rollback' });
+        this.negotiationPending = true;
+      }
+
+      await this.pc.setRemoteDescription({
+        type: description.type,
+        sdp: description.sdp && applyOpusPreset(description.sdp, this.audioPreset)
+      });
+      if (description.type === 'offer') {
+        await this.pc.setLocalDescription();
+        this.onDescription(this.pc.localDescription!.toJSON());
+      }
+      await this.applySenderPreset();
+      await this.applyVideoLayer();
+    });
+  }
+
+  /**
+   * Switch the outgoing audio preset. The bitrate cap applies at once; the Opus
+   * parameters take a renegotiation, which is started here.
+   */
+  async setAudioPreset(preset: AudioPreset) {
+    this.audioPreset = preset;
+    await this.applySenderPreset();
+    if (this.pc.remoteDescription) {
+      await this.negotiate();
+    }
   }
 
-  async addIceCandidate(candidate: RTCIceCandidateInit) {
+  private async applySenderPreset() {
+    const sender = this.pc.getSenders().find(s => s.track?.kind === 'audio');
+    if (!sender) return;
+    const params = sender.getParameters();
+    // No encodings until negotiated; this runs again after every description
+    if (!params.encodings?.length) return;
+    params.encodings[0].maxBitrate = this.audioPreset.maxBitrate;
     try {
-      await this.pc.addIceCandidate(new RTCIceCandidate(candidate));
+      await sender.setParameters(params);
     } catch (e) {
-      console.error('[RTC] Error adding ICE candidate:', e);
+      console.warn(`[RTC] Could not apply audio preset for ${this.peerId}:`, e);
     }
   }
 
+  addIceCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+    // Queued so candidates never arrive ahead of their description
+    return this.enqueue(async () => {
+      try {
+        await this.pc.addIceCandidate(new RTCIceCandidate(candidate));
+      } catch (e) {
+        // Candidates for an offer we ignored are expected to fail
+        if (!this.ignoreOffer) {
+          console.error('[RTC] Error adding ICE candidate:', e);
+        }
+      }
+    });
+  }
+
   close() {
+    this.monitor.dispose();
     this.pc.close();
   }
 
@@ -176,7 +368,7 @@ export class PeerConnection {
 
   /**
    * Add a video track to the connection (for camera).
-   * This triggers renegotiation.
+   * This triggers renegotiation, glare-safe from either side.
    */
   addVideoTrack(track: MediaStreamTrack, stream: MediaStream) {
     if (this.videoSender) {
@@ -187,6 +379,37 @@ export class PeerConnection {
     console.log(`[RTC] Added video track to ${this.peerId}`);
   }
 
+  /**
+   * Send the camera at the size the peer asked for; 'off' pauses the encoder
+   * while its tile isn't showing our camera. The connection's single encoding
+   * is retuned in place - no simulcast or SVC layers (see CAMERA_ENCODINGS).
+   */
+  async setVideoLayer(layer: VideoLayer) {
+    if (layer === this.videoLayer) return;
+    this.videoLayer = layer;
+    console.log(`[RTC] ${this.peerId} wants camera layer ${layer}`);
+    await this.applyVideoLayer();
+  }
+
+  private async applyVideoLayer() {
+    const sender = this.videoSender;
+    if (!sender) return;
+    const params = sender.getParameters();
+    // No encodings until negotiated; this runs again after every description
+    if (!params.encodings?.length) return;
+    const encoding = params.encodings[0];
+    if (this.videoLayer === 'off') {
+      encoding.active = false;
+    } else {
+      Object.assign(encoding, { active: true, ...CAMERA_ENCODINGS[this.videoLayer] });
+    }
+    try {
+      await sender.setParameters(params);
+    } catch (e) {
+      console.warn(`[RTC] Could not apply camera layer for ${this.peerId}:`, e);
+    }
+  }
+
   /**
    * Remove the video track from the connection.
    * This triggers renegotiation.
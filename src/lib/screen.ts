@@ -1,26 +1,96 @@
 // Screen sharing with subscription model
-// Sharer sends to subscribers only via separate RTCPeerConnections
+// Sharer sends to subscribers only via separate RTCPeerConnections. With relaying
+// on (see party/relay.ts), viewers may get the share from another viewer, which
+// forwards what it receives through a ScreenShareManager of its own.
+
+import { ConnectionMonitor, type ConnectionHealth } from './health';
+import { createPeerConnection } from './ice';
+
+// Chrome-only picker options, not in the DOM typings yet
+interface DisplayMediaOptions extends DisplayMediaStreamOptions {
+  systemAudio?: 'include' | 'exclude';
+}
 
 // Screen share constraints - prioritize clarity for text/UI
-export const screenConstraints: DisplayMediaStreamOptions = {
+export const screenConstraints: DisplayMediaOptions = {
   video: {
     // Prefer higher resolution for readability
     width: { ideal: 1920 },
     height: { ideal: 1080 },
     frameRate: { ideal: 30, max: 60 }
   },
-  audio: false  // Can be enabled later for system audio
+  // Tab/system audio where the browser offers it. Played-back media, not
+  // speech: voice processing would only damage it.
+  audio: {
+    echoCancellation: false,
+    noiseSuppression: false,
+    autoGainControl: false
+  },
+  systemAudio: 'include'
 };
 
-// RTC configuration (same as main connections)
-const rtcConfig: RTCConfiguration = {
-  iceServers: [
-    { urls: 'stun:stun.l.google.com:19302' }
-  ]
+// What is being shared: documents and code want sharp frames, videos and
+// demos want smooth ones. Sets the track's content hint and what the encoder
+// gives up first when bandwidth runs short.
+export type ScreenShareMode = 'detail' | 'motion';
+
+interface ScreenShareProfile {
+  label: string;
+  contentHint: string;
+  degradationPreference: RTCDegradationPreference;
+  maxBitrate: number;     // bits/s with plenty of bandwidth
+  maxFramerate: number;
+}
+
+export const SCREEN_SHARE_MODES: Record<ScreenShareMode, ScreenShareProfile> = {
+  detail: { label: 'Text & detail', contentHint: 'text', degradationPreference: 'maintain-resolution', maxBitrate: 2_500_000, maxFramerate: 15 },
+  motion: { label: 'Motion & video', contentHint: 'motion', degradationPreference: 'maintain-framerate', maxBitrate: 4_000_000, maxFramerate: 30 }
 };
 
+export const DEFAULT_SCREEN_SHARE_MODE: ScreenShareMode = 'detail';
+
+// Per-subscriber adaptation
+const ADAPT_INTERVAL_MS = 3000;
+const MIN_SCREEN_BITRATE = 150_000;
+const LOSSY_FRACTION = 0.1;      // Back off above 10% loss
+const MIN_BITRATE_CHANGE = 0.2;  // Ignore changes under 20% to avoid churn
+
+// A viewer receiving through a forwarder asks for another upstream after
+// this much video loss in this many checks running
+const RELAY_CHECK_INTERVAL_MS = 3000;
+const RELAY_LOSS_LIMIT = 0.15;
+const RELAY_DEGRADED_CHECKS = 3;
+
+/**
+ * Encoding for one subscriber, from the sender's bandwidth estimate for that
+ * connection and the loss the subscriber reports. There's room above the
+ * estimate while the link is clean, so it can keep growing.
+ */
+function adaptEncoding(
+  profile: ScreenShareProfile,
+  availableBitrate: number | null,
+  fractionLost: number
+): RTCRtpEncodingParameters {
+  if (availableBitrate === null) {
+    return { maxBitrate: profile.maxBitrate, maxFramerate: profile.maxFramerate, scaleResolutionDownBy: 1 };
+  }
+  const target = availableBitrate * (fractionLost > LOSSY_FRACTION ? 0.7 : 1.2);
+  const maxBitrate = Math.round(Math.min(profile.maxBitrate, Math.max(MIN_SCREEN_BITRATE, target)));
+  const ratio = maxBitrate / profile.maxBitrate;
+
+  if (profile.degradationPreference === 'maintain-resolution') {
+    // Keep text sharp, lower the frame rate
+    const maxFramerate = ratio < 0.25 ? 5 : ratio < 0.5 ? 10 : profile.maxFramerate;
+    return { maxBitrate, maxFramerate, scaleResolutionDownBy: 1 };
+  }
+  // Keep motion smooth, lower the resolution
+  const scaleResolutionDownBy = ratio < 0.25 ? 2 : ratio < 0.5 ? 1.5 : 1;
+  return { maxBitrate, maxFramerate: profile.maxFramerate, scaleResolutionDownBy };
+}
+
 /**
  * Acquire screen share stream via browser picker.
+ * The stream has an audio track only if the user chose to share audio.
  */
 export async function getScreenStream(): Promise<MediaStream> {
   return navigator.mediaDevices.getDisplayMedia(screenConstraints);
@@ -36,24 +106,37 @@ export function isScreenShareSupported(): boolean {
 /**
  * A single screen share connection to a subscriber.
  * The sharer creates one of these for each peer who subscribes.
+ * As the offering side it drives ICE restarts; rebuilding is up to the viewer.
+ *
+ * Video bitrate, frame rate and resolution follow this subscriber's own
+ * bandwidth, so a weak viewer gets a lighter stream without affecting others.
  */
 export class ScreenShareConnection {
   pc: RTCPeerConnection;
   subscriberId: string;
   onIceCandidate: (candidate: RTCIceCandidateInit) => void;
+  onOffer: (offer: RTCSessionDescriptionInit) => void;
   private stream: MediaStream;
+  private monitor: ConnectionMonitor;
+  private mode: ScreenShareMode;
+  private encoding: RTCRtpEncodingParameters | null = null;
+  private adaptTimer: ReturnType<typeof setInterval>;
 
   constructor(
     subscriberId: string,
     stream: MediaStream,
-    onIceCandidate: (candidate: RTCIceCandidateInit) => void
+    onIceCandidate: (candidate: RTCIceCandidateInit) => void,
+    onOffer: (offer: RTCSessionDescriptionInit) => void,
+    mode: ScreenShareMode = DEFAULT_SCREEN_SHARE_MODE
   ) {
     this.subscriberId = subscriberId;
     this.stream = stream;
     this.onIceCandidate = onIceCandidate;
-    this.pc = new RTCPeerConnection(rtcConfig);
+    this.onOffer = onOffer;
+    this.mode = mode;
+    this.pc = createPeerConnection();
 
-    // Add the screen share track
+    // Add the screen share tracks (video, plus audio if it was shared)
     stream.getTracks().forEach(track => {
       this.pc.addTrack(track, stream);
     });
@@ -67,16 +150,97 @@ export class ScreenShareConnection {
     this.pc.onconnectionstatechange = () => {
       console.log(`[Screen] Connection to subscriber ${subscriberId}: ${this.pc.connectionState}`);
     };
+
+    this.monitor = new ConnectionMonitor(this.pc, `screen subscriber ${subscriberId}`, {
+      restart: () => {
+        this.createOffer({ iceRestart: true })
+          .then(offer => this.onOffer(offer))
+          .catch(e => console.error('[Screen] ICE restart failed:', e));
+      }
+    });
+
+    this.adaptTimer = setInterval(() => this.adapt(), ADAPT_INTERVAL_MS);
   }
 
-  async createOffer(): Promise<RTCSessionDescriptionInit> {
-    const offer = await this.pc.createOffer();
+  async createOffer(options?: RTCOfferOptions): Promise<RTCSessionDescriptionInit> {
+    const offer = await this.pc.createOffer(options);
     await this.pc.setLocalDescription(offer);
     return offer;
   }
 
   async handleAnswer(answer: RTCSessionDescriptionInit) {
     await this.pc.setRemoteDescription(new RTCSessionDescription(answer));
+    await this.applyEncoding(this.encoding ?? adaptEncoding(SCREEN_SHARE_MODES[this.mode], null, 0), true);
+  }
+
+  /**
+   * Send tracks from another stream without renegotiating (a forwarder whose
+   * own upstream changed). Kinds the connection wasn't set up with are skipped.
+   */
+  async replaceStream(stream: MediaStream) {
+    this.stream = stream;
+    for (const transceiver of this.pc.getTransceivers()) {
+      const kind = transceiver.receiver.track.kind;
+      const track = stream.getTracks().find(t => t.kind === kind) ?? null;
+      await transceiver.sender.replaceTrack(track);
+    }
+  }
+
+  /**
+   * Switch between detail and motion. Starts again from the mode's full
+   * quality; the next adaptation round brings it down if needed.
+   */
+  async setMode(mode: ScreenShareMode) {
+    this.mode = mode;
+    await this.applyEncoding(adaptEncoding(SCREEN_SHARE_MODES[mode], null, 0), true);
+  }
+
+  private async adapt() {
+    if (this.pc.connectionState !== 'connected') return;
+    let availableBitrate: number | null = null;
+    let fractionLost = 0;
+    try {
+      const stats = await this.pc.getStats();
+      stats.forEach(stat => {
+        if (stat.type === 'candidate-pair' && stat.nominated && stat.state === 'succeeded' &&
+            typeof stat.availableOutgoingBitrate === 'number') {
+          availableBitrate = stat.availableOutgoingBitrate;
+        }
+        if (stat.type === 'remote-inbound-rtp' && stat.kind === 'video' && typeof stat.fractionLost === 'number') {
+          fractionLost = stat.fractionLost;
+        }
+      });
+    } catch (e) {
+      console.warn(`[Screen] getStats failed for ${this.subscriberId}:`, e);
+      return;
+    }
+    await this.applyEncoding(adaptEncoding(SCREEN_SHARE_MODES[this.mode], availableBitrate, fractionLost));
+  }
+
+  private async applyEncoding(encoding: RTCRtpEncodingParameters, force = false) {
+    const previous = this.encoding;
+    if (!force && previous?.maxBitrate && encoding.maxBitrate &&
+        Math.abs(encoding.maxBitrate - previous.maxBitrate) / previous.maxBitrate < MIN_BITRATE_CHANGE &&
+        encoding.maxFramerate === previous.maxFramerate &&
+        encoding.scaleResolutionDownBy === previous.scaleResolutionDownBy) {
+      return;
+    }
+
+    const sender = this.pc.getSenders().find(s => s.track?.kind === 'video');
+    if (!sender) return;
+    const params = sender.getParameters();
+    // No encodings until negotiated; applied again once the answer is in
+    if (!params.encodings?.length) return;
+    params.degradationPreference = SCREEN_SHARE_MODES[this.mode].degradationPreference;
+    Object.assign(params.encodings[0], encoding);
+    try {
+      await sender.setParameters(params);
+      this.encoding = encoding;
+      console.log(`[Screen] ${this.subscriberId}: ${Math.round((encoding.maxBitrate ?? 0) / 1000)} kbps, ` +
+        `${encoding.maxFramerate} fps, 1/${encoding.scaleResolutionDownBy} scale`);
+    } catch (e) {
+      console.warn(`[Screen] Could not set encoding for ${this.subscriberId}:`, e);
+    }
   }
 
   async addIceCandidate(candidate: RTCIceCandidateInit) {
@@ -88,29 +252,41 @@ export class ScreenShareConnection {
   }
 
   close() {
+    clearInterval(this.adaptTimer);
+    this.monitor.dispose();
     this.pc.close();
   }
 }
 
 /**
  * A viewer's connection to receive a screen share.
- * Created when subscribing to someone's screen.
+ * Created when subscribing to someone's screen. While the sharer restarts ICE
+ * it waits; if that doesn't help, `onRebuild` should subscribe afresh.
  */
 export class ScreenViewerConnection {
   pc: RTCPeerConnection;
   sharerId: string;
+  upstreamId: string | null = null;  // Who sends us the share: the sharer, or a forwarding viewer
   onIceCandidate: (candidate: RTCIceCandidateInit) => void;
   onTrack: (stream: MediaStream) => void;
+  private monitor: ConnectionMonitor;
+  private onRebuild?: () => void;
+  private relayTimer: ReturnType<typeof setInterval> | null = null;
+  private lastCounts: { received: number; lost: number } | null = null;
+  private degradedChecks = 0;
 
   constructor(
     sharerId: string,
     onIceCandidate: (candidate: RTCIceCandidateInit) => void,
-    onTrack: (stream: MediaStream) => void
+    onTrack: (stream: MediaStream) => void,
+    onHealth?: (health: ConnectionHealth) => void,
+    onRebuild?: () => void
   ) {
     this.sharerId = sharerId;
     this.onIceCandidate = onIceCandidate;
     this.onTrack = onTrack;
-    this.pc = new RTCPeerConnection(rtcConfig);
+    this.onRebuild = onRebuild;
+    this.pc = createPeerConnection();
 
     this.pc.onicecandidate = (event) => {
       if (event.candidate) {
@@ -127,6 +303,46 @@ export class ScreenViewerConnection {
     this.pc.onconnectionstatechange = () => {
       console.log(`[Screen] Viewer connection to ${sharerId}: ${this.pc.connectionState}`);
     };
+
+    this.monitor = new ConnectionMonitor(this.pc, `screen from ${sharerId}`, {
+      rebuild: onRebuild,
+      onHealth
+    });
+
+    if (onRebuild) {
+      this.relayTimer = setInterval(() => this.checkRelay(), RELAY_CHECK_INTERVAL_MS);
+    }
+  }
+
+  // A forwarder with a poor uplink drags down everyone below it; resubscribing
+  // gets us moved elsewhere in the tree
+  private async checkRelay() {
+    if (!this.upstreamId || this.upstreamId === this.sharerId || this.pc.connectionState !== 'connected') return;
+    let received = 0;
+    let lost = 0;
+    try {
+      const stats = await this.pc.getStats();
+      stats.forEach(stat => {
+        if (stat.type === 'inbound-rtp' && stat.kind === 'video') {
+          received += stat.packetsReceived ?? 0;
+          lost += stat.packetsLost ?? 0;
+        }
+      });
+    } catch {
+      return;
+    }
+
+    const previous = this.lastCounts;
+    this.lastCounts = { received, lost };
+    if (!previous) return;
+    const expected = (received - previous.received) + (lost - previous.lost);
+    const loss = expected > 0 ? (lost - previous.lost) / expected : 0;
+    this.degradedChecks = loss > RELAY_LOSS_LIMIT ? this.degradedChecks + 1 : 0;
+    if (this.degradedChecks >= RELAY_DEGRADED_CHECKS) {
+      console.log(`[Screen] Relay from ${this.upstreamId} keeps losing ${Math.round(loss * 100)}%, asking for another`);
+      this.degradedChecks = 0;
+      this.onRebuild?.();
+    }
   }
 
   async handleOffer(offer: RTCSessionDescriptionInit): Promise<RTCSessionDescriptionInit> {
@@ -145,6 +361,8 @@ export class ScreenViewerConnection {
   }
 
   close() {
+    if (this.relayTimer) clearInterval(this.relayTimer);
+    this.monitor.dispose();
     this.pc.close();
   }
 }
@@ -152,19 +370,28 @@ export class ScreenViewerConnection {
 /**
  * Manages screen sharing state as the sharer.
  * Handles multiple subscribers with individual connections.
+ *
+ * Also used by viewers the server picked as forwarders: `relay()` hands it
+ * the stream being watched in place of a captured one.
  */
 export class ScreenShareManager {
   private stream: MediaStream | null = null;
+  private ownsStream = true;  // False when relaying someone else's share
   private subscribers: Map<string, ScreenShareConnection> = new Map();
+  private pending = new Set<string>();  // Subscribers waiting for a relayed stream
   private onIceCandidate: (subscriberId: string, candidate: RTCIceCandidateInit) => void;
   private onEnded: () => void;
+  private onOffer: (subscriberId: string, offer: RTCSessionDescriptionInit) => void;
+  private mode: ScreenShareMode = DEFAULT_SCREEN_SHARE_MODE;
 
   constructor(
     onIceCandidate: (subscriberId: string, candidate: RTCIceCandidateInit) => void,
-    onEnded: () => void
+    onEnded: () => void,
+    onOffer: (subscriberId: string, offer: RTCSessionDescriptionInit) => void = () => {}
   ) {
     this.onIceCandidate = onIceCandidate;
     this.onEnded = onEnded;
+    this.onOffer = onOffer;
   }
 
   /**
@@ -173,6 +400,10 @@ export class ScreenShareManager {
   async start(): Promise<MediaStream | null> {
     try {
       this.stream = await getScreenStream();
+      if (this.stream.getAudioTracks().length > 0) {
+        console.log('[Screen] Sharing with audio');
+      }
+      this.applyContentHint();
       
       // Listen for when user stops sharing via browser UI
       this.stream.getVideoTracks()[0].onended = () => {
@@ -188,14 +419,51 @@ export class ScreenShareManager {
     }
   }
 
+  /**
+   * Forward a share we're receiving. Called again with the new stream when our
+   * own upstream changes; subscribers get the new tracks without renegotiating.
+   * Subscribers that arrived before the stream get their offers through `onOffer`.
+   */
+  async relay(stream: MediaStream) {
+    if (stream === this.stream) return;
+    this.ownsStream = false;
+    this.stream = stream;
+    await Promise.all([...this.subscribers.values()].map(conn => conn.replaceStream(stream)));
+
+    for (const subscriberId of [...this.pending]) {
+      this.pending.delete(subscriberId);
+      const offer = await this.addSubscriber(subscriberId);
+      if (offer) this.onOffer(subscriberId, offer);
+    }
+  }
+
+  /**
+   * Switch what the share is tuned for, on the track and every subscriber.
+   */
+  async setMode(mode: ScreenShareMode) {
+    this.mode = mode;
+    this.applyContentHint();
+    await Promise.all([...this.subscribers.values()].map(conn => conn.setMode(mode)));
+    console.log(`[Screen] Mode: ${SCREEN_SHARE_MODES[mode].label}`);
+  }
+
+  private applyContentHint() {
+    const track = this.stream?.getVideoTracks()[0];
+    if (track) {
+      track.contentHint = SCREEN_SHARE_MODES[this.mode].contentHint;
+    }
+  }
+
   /**
    * Stop sharing and close all subscriber connections.
    */
   stop() {
-    if (this.stream) {
+    // A relayed stream is still being watched
+    if (this.stream && this.ownsStream) {
       this.stream.getTracks().forEach(track => track.stop());
-      this.stream = null;
     }
+    this.stream = null;
+    this.pending.clear();
     
     this.subscribers.forEach(conn => conn.close());
     this.subscribers.clear();
@@ -207,7 +475,9 @@ export class ScreenShareManager {
    */
   async addSubscriber(subscriberId: string): Promise<RTCSessionDescriptionInit | null> {
     if (!this.stream) {
-      console.warn('[Screen] No stream to share');
+      // A forwarder may be asked before its own stream has arrived
+      console.log(`[Screen] No stream yet, ${subscriberId} will get an offer once there is one`);
+      this.pending.add(subscriberId);
       return null;
     }
 
@@ -220,7 +490,9 @@ export class ScreenShareManager {
     const conn = new ScreenShareConnection(
       subscriberId,
       this.stream,
-      (candidate) => this.onIceCandidate(subscriberId, candidate)
+      (candidate) => this.onIceCandidate(subscriberId, candidate),
+      (offer) => this.onOffer(subscriberId, offer),
+      this.mode
     );
 
     this.subscribers.set(subscriberId, conn);
@@ -251,6 +523,7 @@ export class ScreenShareManager {
    * Remove a subscriber (they unsubscribed or left).
    */
   removeSubscriber(subscriberId: string) {
+    this.pending.delete(subscriberId);
     const conn = this.subscribers.get(subscriberId);
     if (conn) {
       conn.close();
@@ -258,6 +531,15 @@ export class ScreenShareManager {
     }
   }
 
+  /**
+   * Close all subscriber connections but keep sharing.
+   */
+  clearSubscribers() {
+    this.pending.clear();
+    this.subscribers.forEach(conn => conn.close());
+    this.subscribers.clear();
+  }
+
   /**
    * Check if currently sharing.
    */
@@ -265,6 +547,13 @@ export class ScreenShareManager {
     return this.stream !== null;
   }
 
+  /**
+   * Get the connection to every subscriber (for diagnostics).
+   */
+  getConnections(): ScreenShareConnection[] {
+    return [...this.subscribers.values()];
+  }
+
   /**
    * Get subscriber count.
    */
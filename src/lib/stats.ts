@@ -0,0 +1,232 @@
+// Connection statistics for diagnostics.
+// Samples getStats() on every audio/camera and screen share connection at a fixed
+// interval, turns the cumulative counters into rates, and keeps a few minutes of
+// history that can be shown live or downloaded as a JSON report.
+
+import { downloadBlob } from './download';
+
+export type ConnectionKind = 'peer' | 'screen-send' | 'screen-receive';
+
+export interface TrackedConnection {
+  id: string;      // Peer id on the other end
+  kind: ConnectionKind;
+  label: string;   // Display name
+  pc: RTCPeerConnection;
+}
+
+export interface StreamSample {
+  direction: 'inbound' | 'outbound';
+  kind: 'audio' | 'video';
+  rid: string | null;           // Simulcast layer, if any
+  codec: string | null;         // e.g. "audio/opus"
+  bitrate: number | null;       // bits/s since the previous sample
+  packetLoss: number | null;    // % of packets lost since the previous sample
+  fps: number | null;
+  width: number | null;
+  height: number | null;
+  jitter: number | null;        // ms
+}
+
+export interface ConnectionSample {
+  timestamp: number;
+  state: RTCPeerConnectionState;
+  localCandidateType: string | null;
+  remoteCandidateType: string | null;
+  protocol: string | null;      // udp / tcp
+  roundTripTime: number | null; // ms
+  availableOutgoingBitrate: number | null;
+  streams: StreamSample[];
+}
+
+export interface ConnectionHistory {
+  id: string;
+  kind: ConnectionKind;
+  label: string;
+  samples: ConnectionSample[];
+}
+
+const SAMPLE_INTERVAL_MS = 2000;
+const HISTORY_SAMPLES = 150;   // 5 minutes at the default interval
+
+// Cumulative counters from the previous sample, per stats report
+interface Counters {
+  timestamp: number;
+  bytes: number;
+  packets: number;
+  lost: number;
+}
+
+function num(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+export class StatsCollector {
+  private getConnections: () => TrackedConnection[];
+  private intervalMs: number;
+  private history = new Map<string, ConnectionHistory>();
+  private counters = new Map<string, Counters>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sampling = false;
+  onSample: () => void = () => {};
+
+  constructor(getConnections: () => TrackedConnection[], intervalMs = SAMPLE_INTERVAL_MS) {
+    this.getConnections = getConnections;
+    this.intervalMs = intervalMs;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.sample(), this.intervalMs);
+    this.sample();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Take one sample of every connection.
+   */
+  async sample() {
+    if (this.sampling) return;
+    this.sampling = true;
+    try {
+      const live = this.getConnections();
+      await Promise.all(live.map(conn => this.sampleConnection(conn)));
+
+      // Forget connections that have been gone for the whole history window
+      const cutoff = Date.now() - this.intervalMs * HISTORY_SAMPLES;
+      for (const [key, entry] of this.history) {
+        const last = entry.samples[entry.samples.length - 1];
+        if (last && last.timestamp >= cutoff) continue;
+        this.history.delete(key);
+        for (const counterKey of this.counters.keys()) {
+          if (counterKey.startsWith(`${key}/`)) this.counters.delete(counterKey);
+        }
+      }
+      this.onSample();
+    } finally {
+      this.sampling = false;
+    }
+  }
+
+  private async sampleConnection(conn: TrackedConnection) {
+    const key = `${conn.kind}:${conn.id}`;
+    let report: RTCStatsReport;
+    try {
+      report = await conn.pc.getStats();
+    } catch (e) {
+      console.warn(`[Stats] getStats failed for ${conn.label}:`, e);
+      return;
+    }
+
+    const sample: ConnectionSample = {
+      timestamp: Date.now(),
+      state: conn.pc.connectionState,
+      localCandidateType: null,
+      remoteCandidateType: null,
+      protocol: null,
+      roundTripTime: null,
+      availableOutgoingBitrate: null,
+      streams: []
+    };
+
+    // Outbound loss comes from the receiver's reports about our streams
+    const remoteLoss = new Map<string, number>();
+    report.forEach(stat => {
+      if (stat.type === 'remote-inbound-rtp' && stat.localId) {
+        const fraction = num(stat.fractionLost);
+        if (fraction !== null) remoteLoss.set(stat.localId, fraction * 100);
+      }
+    });
+
+    report.forEach(stat => {
+      if (stat.type === 'candidate-pair' && stat.nominated && stat.state === 'succeeded') {
+        const rtt = num(stat.currentRoundTripTime);
+        sample.roundTripTime = rtt !== null ? rtt * 1000 : null;
+        sample.availableOutgoingBitrate = num(stat.availableOutgoingBitrate);
+        const local = report.get(stat.localCandidateId);
+        const remote = report.get(stat.remoteCandidateId);
+        sample.localCandidateType = local?.candidateType ?? null;
+        sample.remoteCandidateType = remote?.candidateType ?? null;
+        sample.protocol = local?.protocol ?? null;
+      }
+
+      if (stat.type !== 'inbound-rtp' && stat.type !== 'outbound-rtp') return;
+      const inbound = stat.type === 'inbound-rtp';
+      const bytes = num(inbound ? stat.bytesReceived : stat.bytesSent) ?? 0;
+      const packets = num(inbound ? stat.packetsReceived : stat.packetsSent) ?? 0;
+      const lost = inbound ? num(stat.packetsLost) ?? 0 : 0;
+
+      const counterKey = `${key}/${stat.id}`;
+      const previous = this.counters.get(counterKey);
+      this.counters.set(counterKey, { timestamp: stat.timestamp, bytes, packets, lost });
+
+      let bitrate: number | null = null;
+      let packetLoss: number | null = inbound ? null : remoteLoss.get(stat.id) ?? null;
+      if (previous && stat.timestamp > previous.timestamp) {
+        bitrate = ((bytes - previous.bytes) * 8 * 1000) / (stat.timestamp - previous.timestamp);
+        if (inbound) {
+          const expected = (packets - previous.packets) + (lost - previous.lost);
+          packetLoss = expected > 0 ? ((lost - previous.lost) / expected) * 100 : 0;
+        }
+      }
+
+      const jitter = num(stat.jitter);
+      sample.streams.push({
+        direction: inbound ? 'inbound' : 'outbound',
+        kind: stat.kind === 'video' ? 'video' : 'audio',
+        rid: stat.rid ?? null,
+        codec: stat.codecId ? report.get(stat.codecId)?.mimeType ?? null : null,
+        bitrate,
+        packetLoss,
+        fps: num(stat.framesPerSecond),
+        width: num(stat.frameWidth),
+        height: num(stat.frameHeight),
+        jitter: jitter !== null ? jitter * 1000 : null
+      });
+    });
+
+    let entry = this.history.get(key);
+    if (!entry) {
+      entry = { id: conn.id, kind: conn.kind, label: conn.label, samples: [] };
+      this.history.set(key, entry);
+    }
+    entry.label = conn.label;
+    entry.samples.push(sample);
+    if (entry.samples.length > HISTORY_SAMPLES) entry.samples.shift();
+  }
+
+  /**
+   * Snapshot of the history, grouped by connection kind.
+   */
+  getHistory(): ConnectionHistory[] {
+    return [...this.history.values()]
+      .sort((a, b) => a.kind.localeCompare(b.kind) || a.label.localeCompare(b.label))
+      .map(entry => ({ ...entry, samples: [...entry.samples] }));
+  }
+
+  /**
+   * Everything collected so far, plus whatever context the caller adds
+   * (room, settings), ready to attach to a bug report.
+   */
+  buildReport(context: Record<string, unknown> = {}) {
+    return {
+      generatedAt: new Date().toISOString(),
+      userAgent: navigator.userAgent,
+      sampleIntervalMs: this.intervalMs,
+      ...context,
+      connections: this.getHistory()
+    };
+  }
+}
+
+/**
+ * Download a report as a JSON file.
+ */
+export function downloadReport(report: object, filename: string) {
+  downloadBlob(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }), filename);
+}
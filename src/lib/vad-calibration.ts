@@ -0,0 +1,175 @@
+// VAD threshold calibration.
+// A short calibration records RNNoise's per-frame VAD scores for a few seconds
+// of room noise and a few seconds of speech, then places the gate threshold
+// between the two distributions and sizes the hold to bridge the pauses inside
+// speech. Results are saved per input device. `VadAdapter` keeps the threshold
+// tracking a changing noise floor afterwards.
+
+import { DEFAULT_HOLD_FRAMES, DEFAULT_VAD_THRESHOLD } from './vad-gate';
+
+export const CALIBRATION_NOISE_MS = 4000;
+export const CALIBRATION_SPEECH_MS = 5000;
+
+// Same range the threshold slider allows
+const MIN_THRESHOLD = 0.5;
+const MAX_THRESHOLD = 0.98;
+const MIN_HOLD_FRAMES = 5;
+const MAX_HOLD_FRAMES = 40;
+// Pauses longer than this (in 10ms frames) are between phrases, not inside them
+const MAX_INTRA_SPEECH_GAP = 40;
+// Where between the noise ceiling and typical speech the threshold goes (0 = noise, 1 = speech).
+// Nearer the noise side: clipping a quiet talker is worse than letting a click through.
+const THRESHOLD_POSITION = 0.4;
+
+// Background adaptation
+const ADAPT_BLOCK_FRAMES = 100;        // Judge the noise floor once a second
+const ADAPT_MAX_VOICED_SHARE = 0.3;    // Blocks with more voice than this are skipped as speech
+const ADAPT_SMOOTHING = 0.05;          // Per block: ~20s to follow a new noise floor
+const ADAPT_MAX_SHIFT = 0.1;           // Never move further than this from the calibrated threshold
+
+const STORAGE_KEY = 'vadCalibration';
+
+export interface VadCalibration {
+  threshold: number;
+  holdFrames: number;
+  noiseFloor: number;   // 98th percentile of noise scores at calibration time
+  speechLevel: number;  // Median speech score at calibration time
+  calibratedAt: string;
+}
+
+export const DEFAULT_VAD_CALIBRATION: VadCalibration = {
+  threshold: DEFAULT_VAD_THRESHOLD,
+  holdFrames: DEFAULT_HOLD_FRAMES,
+  noiseFloor: 0,
+  speechLevel: 1,
+  calibratedAt: ''
+};
+
+function quantile(values: ArrayLike<number>, q: number): number {
+  if (values.length === 0) return 0;
+  const sorted = Float32Array.from(values).sort();
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))));
+  return sorted[index];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Lengths of the below-threshold runs between voiced frames.
+ */
+function pauseLengths(scores: ArrayLike<number>, threshold: number): number[] {
+  const gaps: number[] = [];
+  let lastVoiced = -1;
+  for (let i = 0; i < scores.length; i++) {
+    if (scores[i] < threshold) continue;
+    if (lastVoiced >= 0 && i - lastVoiced > 1) gaps.push(i - lastVoiced - 1);
+    lastVoiced = i;
+  }
+  return gaps;
+}
+
+/**
+ * Pick a threshold and hold from frame scores recorded during silence and
+ * during speech.
+ */
+export function calibrateVad(noise: ArrayLike<number>, speech: ArrayLike<number>): VadCalibration {
+  const noiseFloor = quantile(noise, 0.98);
+  // Speech recordings include breaths and pauses; the median is a voiced frame
+  const speechLevel = quantile(speech, 0.5);
+
+  // Overlapping distributions (loud room, quiet voice): favour letting speech through
+  const threshold = speechLevel > noiseFloor
+    ? clamp(noiseFloor + (speechLevel - noiseFloor) * THRESHOLD_POSITION, MIN_THRESHOLD, MAX_THRESHOLD)
+    : clamp(speechLevel, MIN_THRESHOLD, MAX_THRESHOLD);
+
+  // Hold long enough to bridge most pauses inside words and phrases
+  const gaps = pauseLengths(speech, threshold).filter(gap => gap <= MAX_INTRA_SPEECH_GAP);
+  const holdFrames = gaps.length > 0
+    ? clamp(Math.ceil(quantile(gaps, 0.9)), MIN_HOLD_FRAMES, MAX_HOLD_FRAMES)
+    : DEFAULT_HOLD_FRAMES;
+
+  return {
+    threshold: Math.round(threshold * 100) / 100,
+    holdFrames,
+    noiseFloor,
+    speechLevel,
+    calibratedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Follows slow changes in the noise floor (a fan turning on, a window opening)
+ * by shifting the threshold as far as the floor moved since calibration.
+ * Only mostly-silent seconds count, so talking doesn't drag the threshold up.
+ */
+export class VadAdapter {
+  private calibration: VadCalibration;
+  private noiseFloor: number;
+  private block: number[] = [];
+  threshold: number;
+  // Called when the threshold moved enough to be worth applying
+  onChange: (threshold: number) => void = () => {};
+
+  constructor(calibration: VadCalibration) {
+    this.calibration = calibration;
+    this.noiseFloor = calibration.noiseFloor;
+    this.threshold = calibration.threshold;
+  }
+
+  /**
+   * Start again from a (new) calibration, e.g. after a device switch or a manual change.
+   */
+  reset(calibration: VadCalibration) {
+    this.calibration = calibration;
+    this.noiseFloor = calibration.noiseFloor;
+    this.threshold = calibration.threshold;
+    this.block = [];
+  }
+
+  add(frames: ArrayLike<number>) {
+    for (let i = 0; i < frames.length; i++) {
+      this.block.push(frames[i]);
+      if (this.block.length >= ADAPT_BLOCK_FRAMES) this.finishBlock();
+    }
+  }
+
+  private finishBlock() {
+    const block = this.block;
+    this.block = [];
+    const voiced = block.filter(score => score >= this.threshold).length;
+    if (voiced / block.length > ADAPT_MAX_VOICED_SHARE) return;
+
+    this.noiseFloor += (quantile(block, 0.98) - this.noiseFloor) * ADAPT_SMOOTHING;
+    const shift = clamp(this.noiseFloor - this.calibration.noiseFloor, -ADAPT_MAX_SHIFT, ADAPT_MAX_SHIFT);
+    const threshold = Math.round(clamp(this.calibration.threshold + shift, MIN_THRESHOLD, MAX_THRESHOLD) * 100) / 100;
+    if (threshold !== this.threshold) {
+      this.threshold = threshold;
+      this.onChange(threshold);
+    }
+  }
+}
+
+function loadAll(): Record<string, VadCalibration> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Saved calibration for an input device, if it was ever calibrated.
+ */
+export function loadVadCalibration(deviceId: string): VadCalibration | null {
+  return loadAll()[deviceId || 'default'] ?? null;
+}
+
+export function saveVadCalibration(deviceId: string, calibration: VadCalibration) {
+  const all = loadAll();
+  all[deviceId || 'default'] = calibration;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch {}
+}
@@ -0,0 +1,249 @@
+/**
+ * RNNoise frame processing and the VAD gate.
+ *
+ * Shared by the AudioWorklet processor (vad-worklet.ts, audio thread), the
+ * ScriptProcessor fallback in vad-noise.ts (main thread) and the offline WAV
+ * tool (scripts/vad-wav.js, Node), so all of them gate exactly the same way.
+ * Nothing in here may touch the DOM.
+ */
+
+export const RNNOISE_SAMPLE_LENGTH = 480; // RNNoise frame size (10ms at 48kHz)
+export const DEFAULT_VAD_THRESHOLD = 0.85;
+export const DEFAULT_HOLD_FRAMES = 10;  // Hold voice state for N frames after VAD drops (prevents choppy speech)
+export const MAX_LOOKAHEAD_FRAMES = 5;
+export const VAD_PROCESSOR_NAME = 'vad-noise-processor';
+
+const SHIFT_16_BIT = 32768;
+const VAD_SMOOTHING = 0.3;  // Smoothing of the UI score. Lower = smoother
+
+// WASM Module interface
+export interface RnnoiseModule {
+  _rnnoise_create: () => number;
+  _rnnoise_destroy: (ctx: number) => void;
+  _rnnoise_process_frame: (ctx: number, input: number, output: number) => number;
+  _malloc: (size: number) => number;
+  _free: (ptr: number) => void;
+  HEAPF32: Float32Array;
+}
+
+// How the gate decides and how it opens and closes
+export interface VadGateSettings {
+  threshold: number;        // Voice probability threshold (0-1). Higher = more aggressive gating
+  holdFrames: number;       // Frames the gate stays open after the score drops
+  attackMs: number;         // Fade-in time when voice starts
+  releaseMs: number;        // Fade-out time once the hold has run out
+  lookaheadFrames: number;  // Frames of delay so the gate is already open when a word starts (0-5)
+  attenuate: boolean;       // Turn non-voice down by `attenuationDb` instead of silencing it
+  attenuationDb: number;
+}
+
+export const DEFAULT_VAD_GATE_SETTINGS: VadGateSettings = {
+  threshold: DEFAULT_VAD_THRESHOLD,
+  holdFrames: DEFAULT_HOLD_FRAMES,
+  attackMs: 5,
+  releaseMs: 100,
+  lookaheadFrames: 2,
+  attenuate: false,
+  attenuationDb: 24
+};
+
+// What an RNNoise node does with each frame
+export interface VadNoiseSettings extends VadGateSettings {
+  denoise: boolean;   // Output RNNoise's denoised audio (otherwise the input, delayed like the denoised audio)
+  gate: boolean;      // Gate frames whose VAD score is below the threshold
+}
+
+// Options passed to the worklet processor on creation
+export interface VadProcessorOptions {
+  wasmBinary: ArrayBuffer;
+  settings: VadNoiseSettings;
+}
+
+// Messages between the worklet processor and the main thread
+export type VadWorkletCommand =
+  | { type: 'configure'; settings: Partial<VadNoiseSettings> }
+  | { type: 'stop' };
+
+export type VadWorkletEvent =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | { type: 'vad'; raw: number; smoothed: number; frames: Float32Array };  // frames: every raw score since the last event
+
+/**
+ * One RNNoise denoiser with its own buffer in the WASM heap.
+ */
+export class RnnoiseFrame {
+  private module: RnnoiseModule;
+  private context: number;
+  private pcmPtr: number;
+  private pcmIndex: number;
+
+  constructor(module: RnnoiseModule) {
+    this.module = module;
+    this.pcmPtr = module._malloc(RNNOISE_SAMPLE_LENGTH * 4); // Float32 = 4 bytes
+    this.pcmIndex = this.pcmPtr >> 2;
+    this.context = module._rnnoise_create();
+  }
+
+  /**
+   * Denoise one 480-sample frame in place and return its VAD score (0-1).
+   */
+  process(frame: Float32Array): number {
+    if (!this.context) return 0;
+    // HEAPF32 is re-read each time: it is replaced if the WASM memory grows
+    const heap = this.module.HEAPF32;
+    for (let i = 0; i < RNNOISE_SAMPLE_LENGTH; i++) {
+      heap[this.pcmIndex + i] = frame[i] * SHIFT_16_BIT;
+    }
+    const vadScore = this.module._rnnoise_process_frame(this.context, this.pcmPtr, this.pcmPtr);
+    const out = this.module.HEAPF32;
+    for (let i = 0; i < RNNOISE_SAMPLE_LENGTH; i++) {
+      frame[i] = out[this.pcmIndex + i] / SHIFT_16_BIT;
+    }
+    return vadScore;
+  }
+
+  destroy() {
+    if (!this.context) return;
+    this.module._rnnoise_destroy(this.context);
+    this.module._free(this.pcmPtr);
+    this.context = 0;
+    this.pcmPtr = 0;
+  }
+}
+
+/**
+ * Decides per frame whether audio passes, holding the gate open for a few
+ * frames after the score drops so word endings aren't clipped.
+ */
+export class VadGate {
+  threshold = DEFAULT_VAD_THRESHOLD;
+  holdFrames = DEFAULT_HOLD_FRAMES;
+  raw = 0;        // Last frame's score
+  smoothed = 0;   // Smoothed score for the UI
+  open = false;
+  private holdCounter = 0;
+
+  /**
+   * Feed one frame's VAD score; returns whether the frame passes.
+   */
+  update(score: number): boolean {
+    this.raw = score;
+    this.smoothed = this.smoothed * (1 - VAD_SMOOTHING) + score * VAD_SMOOTHING;
+    if (score >= this.threshold) {
+      this.open = true;
+      this.holdCounter = this.holdFrames;
+    } else if (this.holdCounter > 0) {
+      this.holdCounter--;
+    } else {
+      this.open = false;
+    }
+    return this.open;
+  }
+
+  reset() {
+    this.raw = 0;
+    this.smoothed = 0;
+    this.open = false;
+    this.holdCounter = 0;
+  }
+}
+
+/**
+ * Applies the gate's decisions to the audio: delays it by the lookahead and
+ * fades between open and closed instead of cutting, so onsets survive and
+ * transitions don't click.
+ */
+export class GateEnvelope {
+  private sampleRate: number;
+  // Ring of the last MAX_LOOKAHEAD_FRAMES + 1 frames
+  private delay = new Float32Array((MAX_LOOKAHEAD_FRAMES + 1) * RNNOISE_SAMPLE_LENGTH);
+  private writeSlot = 0;
+  private lookahead = 0;
+  gain = 0;   // Gain at the end of the last frame
+  private floor = 0;
+  private attackStep = 1;
+  private releaseStep = 1;
+
+  constructor(sampleRate: number, settings: VadGateSettings) {
+    this.sampleRate = sampleRate;
+    this.configure(settings);
+  }
+
+  configure(settings: VadGateSettings) {
+    this.lookahead = Math.max(0, Math.min(MAX_LOOKAHEAD_FRAMES, Math.round(settings.lookaheadFrames)));
+    this.floor = settings.attenuate ? Math.pow(10, -Math.abs(settings.attenuationDb) / 20) : 0;
+    const range = 1 - this.floor;
+    const samples = (ms: number) => (ms * this.sampleRate) / 1000;
+    this.attackStep = settings.attackMs > 0 ? range / samples(settings.attackMs) : range;
+    this.releaseStep = settings.releaseMs > 0 ? range / samples(settings.releaseMs) : range;
+  }
+
+  /**
+   * Queue `frame` and write the frame from `lookahead` frames ago to `out`,
+   * faded towards open or closed.
+   */
+  process(frame: Float32Array, open: boolean, out: Float32Array) {
+    const slots = MAX_LOOKAHEAD_FRAMES + 1;
+    this.delay.set(frame, this.writeSlot * RNNOISE_SAMPLE_LENGTH);
+    const readOffset = ((this.writeSlot - this.lookahead + slots) % slots) * RNNOISE_SAMPLE_LENGTH;
+    this.writeSlot = (this.writeSlot + 1) % slots;
+
+    const target = open ? 1 : this.floor;
+    for (let i = 0; i < RNNOISE_SAMPLE_LENGTH; i++) {
+      if (this.gain < target) {
+        this.gain = Math.min(target, this.gain + this.attackStep);
+      } else if (this.gain > target) {
+        this.gain = Math.max(target, this.gain - this.releaseStep);
+      }
+      out[i] = this.delay[readOffset + i] * this.gain;
+    }
+  }
+}
+
+/**
+ * Everything done to one 480-sample frame: RNNoise, the gate decision and the
+ * envelope. Callers only collect input into frames and queue the output.
+ */
+export class VadFrameProcessor {
+  readonly gate = new VadGate();
+  private rnnoise: RnnoiseFrame;
+  private envelope: GateEnvelope;
+  private settings: VadNoiseSettings;
+  private dry = new Float32Array(RNNOISE_SAMPLE_LENGTH);
+
+  constructor(module: RnnoiseModule, sampleRate: number, settings: VadNoiseSettings) {
+    this.rnnoise = new RnnoiseFrame(module);
+    this.settings = { ...settings };
+    this.envelope = new GateEnvelope(sampleRate, settings);
+    this.configure(settings);
+  }
+
+  configure(settings: Partial<VadNoiseSettings>) {
+    this.settings = { ...this.settings, ...settings };
+    this.gate.threshold = this.settings.threshold;
+    this.gate.holdFrames = this.settings.holdFrames;
+    this.envelope.configure(this.settings);
+  }
+
+  /**
+   * Process `frame` (overwritten with the denoised audio) and write the
+   * lookahead-delayed, gated output to `out`. Returns the frame's VAD score.
+   */
+  process(frame: Float32Array, out: Float32Array): number {
+    if (!this.settings.denoise) this.dry.set(frame);
+    const score = this.rnnoise.process(frame);
+    const open = this.gate.update(score) || !this.settings.gate;
+    this.envelope.process(this.settings.denoise ? frame : this.dry, open, out);
+    return score;
+  }
+
+  // Gain applied at the end of the last output frame (0-1)
+  get gain(): number {
+    return this.envelope.gain;
+  }
+
+  destroy() {
+    this.rnnoise.destroy();
+  }
+}
@@ -1,123 +1,183 @@
 /**
  * VAD-Gated Noise Suppression
- * 
+ *
  * Uses @jitsi/rnnoise-wasm to filter background noise AND gate non-voice sounds.
  * The key difference from standard RNNoise: we use the VAD (Voice Activity Detection)
  * score to completely silence audio when no voice is detected.
- * 
+ *
  * This effectively filters keyboard clicks, mouse clicks, and other impulsive sounds
  * that RNNoise alone would only reduce (not eliminate).
- * 
+ *
  * Architecture:
- * - Uses ScriptProcessorNode (deprecated but reliable) for main-thread processing
- * - RNNoise WASM loaded via @jitsi/rnnoise-wasm's proper loader
- * - VAD gating applied based on returned probability score
+ * - `createVadNoiseNode()` builds one RNNoise node in a given AudioContext; the
+ *   audio pipeline (audio-pipeline.ts) places it in the mic chain
+ * - Primary: an AudioWorkletProcessor (vad-worklet.ts) runs RNNoise and the gate on
+ *   the audio thread; VAD scores are posted back to the main thread for the UI
+ * - Fallback: ScriptProcessorNode (deprecated) on the main thread, only used when
+ *   AudioWorklet is unavailable or the worklet fails to start
+ * - Both paths share the frame processing and gate in vad-gate.ts
  */
 
-// Configuration
-let vadThreshold = 0.85; // Voice probability threshold (0-1). Higher = more aggressive gating
-const HOLD_FRAMES = 10;     // Hold voice state for N frames after VAD drops (prevents choppy speech)
-const RNNOISE_SAMPLE_LENGTH = 480; // RNNoise frame size
-const SHIFT_16_BIT = 32768;
-
-// Live VAD score for UI display (smoothed)
-let currentVadScore = 0;
-let smoothedVadScore = 0;
-const VAD_SMOOTHING = 0.3; // Lower = smoother
-
-// WASM Module interface
-interface RnnoiseModule {
-  _rnnoise_create: () => number;
-  _rnnoise_destroy: (ctx: number) => void;
-  _rnnoise_process_frame: (ctx: number, input: number, output: number) => number;
-  _malloc: (size: number) => number;
-  _free: (ptr: number) => void;
-  HEAPF32: Float32Array;
-}
+import workletUrl from './vad-worklet?worker&url';
+import {
+  DEFAULT_VAD_GATE_SETTINGS,
+  RNNOISE_SAMPLE_LENGTH,
+  VAD_PROCESSOR_NAME,
+  VadFrameProcessor,
+  type RnnoiseModule,
+  type VadNoiseSettings,
+  type VadProcessorOptions,
+  type VadWorkletCommand,
+  type VadWorkletEvent
+} from './vad-gate';
+
+export type { VadNoiseSettings };
+
+export const DEFAULT_VAD_NOISE_SETTINGS: VadNoiseSettings = {
+  ...DEFAULT_VAD_GATE_SETTINGS,
+  denoise: true,
+  gate: true
+};
 
-// State
-let audioContext: AudioContext | null = null;
-let sourceNode: MediaStreamAudioSourceNode | null = null;
-let scriptNode: ScriptProcessorNode | null = null;
-let destinationNode: MediaStreamAudioDestinationNode | null = null;
-let originalTrack: MediaStreamTrack | null = null;
-let processedTrack: MediaStreamTrack | null = null;
-let isActive = false;
-
-// RNNoise state
-let rnnoiseModule: RnnoiseModule | null = null;
-let rnnoiseContext: number = 0;
-let wasmPcmPtr: number = 0;
-let wasmPcmF32Index: number = 0;
-
-// Processing state - buffers need to be large enough for ScriptProcessor block size (4096) + RNNoise frame (480)
-let inputBuffer: Float32Array = new Float32Array(RNNOISE_SAMPLE_LENGTH * 16); // ~7680 samples
-let outputBuffer: Float32Array = new Float32Array(RNNOISE_SAMPLE_LENGTH * 16);
-let inputWriteIdx = 0;
-let inputReadIdx = 0;
-let outputWriteIdx = 0;
-let outputReadIdx = 0;
-let voiceHoldCounter = 0;
-let isVoiceActive = false;
+const WORKLET_READY_TIMEOUT_MS = 5000;
 
 /**
- * Load the RNNoise WASM module using Jitsi's loader.
+ * One RNNoise node, whichever way it runs.
  */
-async function loadRnnoiseModule(): Promise<RnnoiseModule> {
-  if (rnnoiseModule) return rnnoiseModule;
-  
-  // Use the async loader from @jitsi/rnnoise-wasm and force WASM URL resolution.
-  // Without locateFile, nested routes like /r/<room> can fetch rnnoise.wasm from the wrong path
+export interface VadNoiseNode {
+  readonly node: AudioNode;
+  readonly mode: 'worklet' | 'script';
+  configure(settings: Partial<VadNoiseSettings>): void;
+  /** Smoothed VAD score (0-1) for UI display. Higher = more likely voice. */
+  getVadScore(): number;
+  /** Raw (unsmoothed) VAD score of the latest frames */
+  getRawVadScore(): number;
+  /** Receives every frame's raw score, in small batches (calibration, adaptation) */
+  onFrameScores: ((scores: Float32Array) => void) | null;
+  dispose(): void;
+}
+
+// Shared, immutable RNNoise resources: fetched or compiled once per page
+let wasmBinary: Promise<ArrayBuffer> | null = null;
+let rnnoiseModule: Promise<RnnoiseModule> | null = null;
+const workletContexts = new WeakSet<BaseAudioContext>();
+
+function getWasmUrl(): string {
+  // Without an absolute URL, nested routes like /r/<room> can fetch rnnoise.wasm from the wrong path
   // (e.g., returning index.html with text/html), causing the "magic number" validation error.
-  const { createRNNWasmModule } = await import('@jitsi/rnnoise-wasm');
-  const wasmUrl = typeof window !== 'undefined'
+  return typeof window !== 'undefined'
     ? new URL('/rnnoise.wasm', window.location.origin).toString()
     : 'rnnoise.wasm';
-  const createModuleAny = createRNNWasmModule as unknown as (opts: any) => Promise<RnnoiseModule>;
-  rnnoiseModule = await createModuleAny({
-    locateFile: (path: string) => (path.endsWith('.wasm') ? wasmUrl : path)
+}
+
+/**
+ * Fetch the RNNoise WASM binary for the worklet (which can't fetch it itself).
+ */
+function loadWasmBinary(): Promise<ArrayBuffer> {
+  wasmBinary ??= fetch(getWasmUrl()).then(res => {
+    if (!res.ok) throw new Error(`rnnoise.wasm: HTTP ${res.status}`);
+    return res.arrayBuffer();
   });
-  return rnnoiseModule;
+  wasmBinary.catch(() => { wasmBinary = null; });
+  return wasmBinary;
 }
 
 /**
- * Initialize RNNoise context and buffers.
+ * Load the RNNoise WASM module on the main thread (ScriptProcessor fallback).
  */
-function initRnnoiseContext(module: RnnoiseModule): void {
-  // Allocate buffer in WASM heap
-  wasmPcmPtr = module._malloc(RNNOISE_SAMPLE_LENGTH * 4); // Float32 = 4 bytes
-  wasmPcmF32Index = wasmPcmPtr >> 2; // Divide by 4 for Float32 index
-  
-  // Create RNNoise context
-  rnnoiseContext = module._rnnoise_create();
-  
-  console.log('[VAD] RNNoise context created:', rnnoiseContext, 'buffer:', wasmPcmPtr);
+function loadRnnoiseModule(): Promise<RnnoiseModule> {
+  rnnoiseModule ??= (async () => {
+    // Use the async loader from @jitsi/rnnoise-wasm and force WASM URL resolution.
+    const { createRNNWasmModule } = await import('@jitsi/rnnoise-wasm');
+    const wasmUrl = getWasmUrl();
+    const createModuleAny = createRNNWasmModule as unknown as (opts: any) => Promise<RnnoiseModule>;
+    return createModuleAny({
+      locateFile: (path: string) => (path.endsWith('.wasm') ? wasmUrl : path)
+    });
+  })();
+  rnnoiseModule.catch(() => { rnnoiseModule = null; });
+  return rnnoiseModule;
 }
 
 /**
- * Process a single RNNoise frame and return VAD score.
+ * RNNoise and the gate in an AudioWorklet. Scores arrive as messages.
  */
-function processRnnoiseFrame(frame: Float32Array): number {
-  if (!rnnoiseModule || !rnnoiseContext) return 0;
-  
-  // Copy to WASM heap, scaling to 16-bit range
-  for (let i = 0; i < RNNOISE_SAMPLE_LENGTH; i++) {
-    rnnoiseModule.HEAPF32[wasmPcmF32Index + i] = frame[i] * SHIFT_16_BIT;
+class WorkletVadNoise implements VadNoiseNode {
+  readonly mode = 'worklet';
+  readonly node: AudioWorkletNode;
+  onFrameScores: ((scores: Float32Array) => void) | null = null;
+  private raw = 0;
+  private smoothed = 0;
+
+  private constructor(node: AudioWorkletNode) {
+    this.node = node;
+  }
+
+  /**
+   * Resolves once the worklet has compiled RNNoise.
+   */
+  static async create(context: AudioContext, settings: VadNoiseSettings): Promise<WorkletVadNoise> {
+    const [binary] = await Promise.all([
+      loadWasmBinary(),
+      workletContexts.has(context) ? undefined : context.audioWorklet.addModule(workletUrl)
+    ]);
+    workletContexts.add(context);
+
+    const processorOptions: VadProcessorOptions = { wasmBinary: binary, settings };
+    const node = new AudioWorkletNode(context, VAD_PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+      processorOptions
+    });
+    const instance = new WorkletVadNoise(node);
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('RNNoise worklet did not start')), WORKLET_READY_TIMEOUT_MS);
+        node.port.onmessage = (event: MessageEvent<VadWorkletEvent>) => {
+          const message = event.data;
+          if (message.type === 'vad') {
+            instance.raw = message.raw;
+            instance.smoothed = message.smoothed;
+            instance.onFrameScores?.(message.frames);
+          } else if (message.type === 'ready') {
+            clearTimeout(timer);
+            resolve();
+          } else if (message.type === 'error') {
+            clearTimeout(timer);
+            reject(new Error(message.message));
+          }
+        };
+      });
+    } catch (error) {
+      instance.dispose();
+      throw error;
+    }
+    return instance;
+  }
+
+  private send(command: VadWorkletCommand) {
+    this.node.port.postMessage(command);
   }
-  
-  // Process and get VAD score
-  const vadScore = rnnoiseModule._rnnoise_process_frame(
-    rnnoiseContext,
-    wasmPcmPtr,
-    wasmPcmPtr
-  );
-  
-  // Copy back denoised audio
-  for (let i = 0; i < RNNOISE_SAMPLE_LENGTH; i++) {
-    frame[i] = rnnoiseModule.HEAPF32[wasmPcmF32Index + i] / SHIFT_16_BIT;
+
+  configure(settings: Partial<VadNoiseSettings>) {
+    this.send({ type: 'configure', settings });
+  }
+
+  getVadScore(): number {
+    return this.smoothed;
+  }
+
+  getRawVadScore(): number {
+    return this.raw;
+  }
+
+  dispose() {
+    this.send({ type: 'stop' });
+    this.node.port.onmessage = null;
+    this.node.disconnect();
   }
-  
-  return vadScore;
 }
 
 /**
@@ -131,223 +191,132 @@ function getAvailable(writeIdx: number, readIdx: number, bufferLen: number): num
 }
 
 /**
- * Audio processing callback.
+ * RNNoise and the gate in a ScriptProcessorNode on the main thread (fallback).
  */
-function processAudio(event: AudioProcessingEvent): void {
-  const input = event.inputBuffer.getChannelData(0);
-  const output = event.outputBuffer.getChannelData(0);
-  
-  // Write all input samples to buffer
-  for (let i = 0; i < input.length; i++) {
-    inputBuffer[inputWriteIdx] = input[i];
-    inputWriteIdx = (inputWriteIdx + 1) % inputBuffer.length;
+class ScriptVadNoise implements VadNoiseNode {
+  readonly mode = 'script';
+  readonly node: ScriptProcessorNode;
+  onFrameScores: ((scores: Float32Array) => void) | null = null;
+  private processor: VadFrameProcessor;
+
+  // Buffers need to be large enough for ScriptProcessor block size + RNNoise frame (480)
+  private inputBuffer = new Float32Array(RNNOISE_SAMPLE_LENGTH * 16); // ~7680 samples
+  private outputBuffer = new Float32Array(RNNOISE_SAMPLE_LENGTH * 16);
+  private frame = new Float32Array(RNNOISE_SAMPLE_LENGTH);
+  private gated = new Float32Array(RNNOISE_SAMPLE_LENGTH);
+  private inputWriteIdx = 0;
+  private inputReadIdx = 0;
+  private outputWriteIdx = 0;
+  private outputReadIdx = 0;
+
+  private constructor(context: AudioContext, module: RnnoiseModule, settings: VadNoiseSettings) {
+    this.processor = new VadFrameProcessor(module, context.sampleRate, settings);
+    // Buffer size 1024 (~21ms at 48kHz) for low latency voice chat
+    this.node = context.createScriptProcessor(1024, 1, 1);
+    this.node.onaudioprocess = (event) => this.process(event);
   }
-  
-  // Process ALL complete 480-sample frames
-  while (getAvailable(inputWriteIdx, inputReadIdx, inputBuffer.length) >= RNNOISE_SAMPLE_LENGTH) {
-    // Extract frame
-    const frame = new Float32Array(RNNOISE_SAMPLE_LENGTH);
-    for (let i = 0; i < RNNOISE_SAMPLE_LENGTH; i++) {
-      frame[i] = inputBuffer[(inputReadIdx + i) % inputBuffer.length];
-    }
-    inputReadIdx = (inputReadIdx + RNNOISE_SAMPLE_LENGTH) % inputBuffer.length;
-    
-    // Process with RNNoise
-    const vadScore = processRnnoiseFrame(frame);
-    
-    // Update live VAD score (smoothed for UI)
-    currentVadScore = vadScore;
-    smoothedVadScore = smoothedVadScore * (1 - VAD_SMOOTHING) + vadScore * VAD_SMOOTHING;
-    
-    // VAD gating
-    if (vadScore >= vadThreshold) {
-      isVoiceActive = true;
-      voiceHoldCounter = HOLD_FRAMES;
-    } else if (voiceHoldCounter > 0) {
-      voiceHoldCounter--;
-    } else {
-      isVoiceActive = false;
+
+  static async create(context: AudioContext, settings: VadNoiseSettings): Promise<ScriptVadNoise> {
+    return new ScriptVadNoise(context, await loadRnnoiseModule(), settings);
+  }
+
+  private process(event: AudioProcessingEvent) {
+    const input = event.inputBuffer.getChannelData(0);
+    const output = event.outputBuffer.getChannelData(0);
+    const inLength = this.inputBuffer.length;
+    const outLength = this.outputBuffer.length;
+
+    // Write all input samples to buffer
+    for (let i = 0; i < input.length; i++) {
+      this.inputBuffer[this.inputWriteIdx] = input[i];
+      this.inputWriteIdx = (this.inputWriteIdx + 1) % inLength;
     }
-    
-    // Write to output buffer (denoised audio if voice, silence otherwise)
-    for (let i = 0; i < RNNOISE_SAMPLE_LENGTH; i++) {
-      outputBuffer[outputWriteIdx] = isVoiceActive ? frame[i] : 0;
-      outputWriteIdx = (outputWriteIdx + 1) % outputBuffer.length;
+
+    // Process ALL complete 480-sample frames
+    const scores: number[] = [];
+    while (getAvailable(this.inputWriteIdx, this.inputReadIdx, inLength) >= RNNOISE_SAMPLE_LENGTH) {
+      // Extract frame
+      for (let i = 0; i < RNNOISE_SAMPLE_LENGTH; i++) {
+        this.frame[i] = this.inputBuffer[(this.inputReadIdx + i) % inLength];
+      }
+      this.inputReadIdx = (this.inputReadIdx + RNNOISE_SAMPLE_LENGTH) % inLength;
+
+      // Process with RNNoise and gate
+      scores.push(this.processor.process(this.frame, this.gated));
+
+      // Write to output buffer (delayed and faded by the gate envelope)
+      for (let i = 0; i < RNNOISE_SAMPLE_LENGTH; i++) {
+        this.outputBuffer[this.outputWriteIdx] = this.gated[i];
+        this.outputWriteIdx = (this.outputWriteIdx + 1) % outLength;
+      }
     }
-  }
-  
-  // Read from output buffer to fill output
-  const outAvailable = getAvailable(outputWriteIdx, outputReadIdx, outputBuffer.length);
-  
-  if (outAvailable >= output.length) {
-    for (let i = 0; i < output.length; i++) {
-      output[i] = outputBuffer[outputReadIdx];
-      outputReadIdx = (outputReadIdx + 1) % outputBuffer.length;
+
+    if (scores.length > 0) this.onFrameScores?.(Float32Array.from(scores));
+
+    // Read from output buffer to fill output
+    if (getAvailable(this.outputWriteIdx, this.outputReadIdx, outLength) >= output.length) {
+      for (let i = 0; i < output.length; i++) {
+        output[i] = this.outputBuffer[this.outputReadIdx];
+        this.outputReadIdx = (this.outputReadIdx + 1) % outLength;
+      }
+    } else {
+      // Not enough data - output silence (shouldn't happen in steady state)
+      output.fill(0);
     }
-  } else {
-    // Not enough data - output silence (shouldn't happen in steady state)
-    output.fill(0);
   }
-}
 
-/**
- * Start VAD-gated noise suppression on an audio track.
- */
-export async function startVadNoiseSuppression(
-  track: MediaStreamTrack
-): Promise<MediaStreamTrack> {
-  await stopVadNoiseSuppression();
-  originalTrack = track;
-  
-  try {
-    // Load RNNoise
-    console.log('[VAD] Loading RNNoise WASM...');
-    const module = await loadRnnoiseModule();
-    initRnnoiseContext(module);
-    console.log('[VAD] RNNoise ready');
-    
-    // Create AudioContext
-    audioContext = new AudioContext();
-    console.log('[VAD] AudioContext sample rate:', audioContext.sampleRate);
-    
-    // Create nodes
-    const stream = new MediaStream([track]);
-    sourceNode = audioContext.createMediaStreamSource(stream);
-    
-    // Use ScriptProcessorNode (deprecated but works everywhere)
-    // Buffer size 1024 (~21ms at 48kHz) for low latency voice chat
-    scriptNode = audioContext.createScriptProcessor(1024, 1, 1);
-    scriptNode.onaudioprocess = processAudio;
-    
-    destinationNode = audioContext.createMediaStreamDestination();
-    
-    // Connect: source -> script -> destination
-    sourceNode.connect(scriptNode);
-    scriptNode.connect(destinationNode);
-    
-    // Reset buffers
-    inputBuffer.fill(0);
-    outputBuffer.fill(0);
-    inputWriteIdx = 0;
-    inputReadIdx = 0;
-    outputWriteIdx = 0;
-    outputReadIdx = 0;
-    voiceHoldCounter = 0;
-    isVoiceActive = false;
-    
-    processedTrack = destinationNode.stream.getAudioTracks()[0];
-    isActive = true;
-    
-    console.log('[VAD] Noise suppression active with VAD gating');
-    return processedTrack;
-    
-  } catch (error) {
-    console.error('[VAD] Failed to start:', error);
-    await stopVadNoiseSuppression();
-    return track;
+  configure(settings: Partial<VadNoiseSettings>) {
+    this.processor.configure(settings);
   }
-}
 
-/**
- * Stop VAD noise suppression and clean up resources.
- */
-export async function stopVadNoiseSuppression(): Promise<MediaStreamTrack | null> {
-  const rawTrack = originalTrack;
-  
-  if (sourceNode) {
-    sourceNode.disconnect();
-    sourceNode = null;
-  }
-  
-  if (scriptNode) {
-    scriptNode.disconnect();
-    scriptNode.onaudioprocess = null;
-    scriptNode = null;
-  }
-  
-  if (destinationNode) {
-    destinationNode.disconnect();
-    destinationNode = null;
+  getVadScore(): number {
+    return this.processor.gate.smoothed;
   }
-  
-  if (audioContext) {
-    try {
-      await audioContext.close();
-    } catch (e) {
-      console.error('[VAD] Error closing AudioContext:', e);
-    }
-    audioContext = null;
+
+  getRawVadScore(): number {
+    return this.processor.gate.raw;
   }
-  
-  // Clean up RNNoise
-  if (rnnoiseModule && rnnoiseContext) {
+
+  dispose() {
+    this.node.disconnect();
+    this.node.onaudioprocess = null;
     try {
-      rnnoiseModule._rnnoise_destroy(rnnoiseContext);
-      if (wasmPcmPtr) {
-        rnnoiseModule._free(wasmPcmPtr);
-      }
+      this.processor.destroy();
     } catch (e) {
       console.error('[VAD] Error cleaning up RNNoise:', e);
     }
-    rnnoiseContext = 0;
-    wasmPcmPtr = 0;
   }
-  
-  originalTrack = null;
-  processedTrack = null;
-  isActive = false;
-  
-  return rawTrack;
 }
 
 /**
- * Check if VAD noise suppression is currently active.
+ * Check if VAD noise suppression can run in this browser.
  */
-export function isVadNoiseSuppressionActive(): boolean {
-  return isActive;
+export function isNoiseSuppressionSupported(): boolean {
+  return typeof window !== 'undefined' && typeof AudioContext !== 'undefined';
 }
 
 /**
- * Get the processed track.
+ * Create an RNNoise node in `context`: an AudioWorklet where possible,
+ * otherwise the ScriptProcessor fallback. The caller wires it into its graph.
  */
-export function getVadProcessedTrack(): MediaStreamTrack | null {
-  return processedTrack;
-}
+export async function createVadNoiseNode(
+  context: AudioContext,
+  settings: Partial<VadNoiseSettings> = {}
+): Promise<VadNoiseNode> {
+  const initial = { ...DEFAULT_VAD_NOISE_SETTINGS, ...settings };
+  console.log('[VAD] AudioContext sample rate:', context.sampleRate);
 
-/**
- * Get the original (raw) track.
- */
-export function getVadOriginalTrack(): MediaStreamTrack | null {
-  return originalTrack;
-}
-
-/**
- * Get the current (smoothed) VAD score for UI display.
- * Returns 0-1 where higher = more likely voice.
- */
-export function getVadScore(): number {
-  return smoothedVadScore;
-}
-
-/**
- * Get the raw (unsmoothed) VAD score.
- */
-export function getRawVadScore(): number {
-  return currentVadScore;
-}
-
-/**
- * Get the current VAD threshold.
- */
-export function getVadThreshold(): number {
-  return vadThreshold;
-}
+  if (typeof AudioWorkletNode !== 'undefined') {
+    try {
+      const node = await WorkletVadNoise.create(context, initial);
+      console.log('[VAD] RNNoise running in AudioWorklet');
+      return node;
+    } catch (error) {
+      console.warn('[VAD] AudioWorklet failed, falling back to ScriptProcessor:', error);
+    }
+  }
 
-/**
- * Set the VAD threshold (0-1).
- * Higher = more aggressive filtering (requires clearer voice to pass).
- */
-export function setVadThreshold(threshold: number): void {
-  vadThreshold = Math.max(0, Math.min(1, threshold));
-  console.log('[VAD] Threshold set to:', vadThreshold);
+  const node = await ScriptVadNoise.create(context, initial);
+  console.log('[VAD] RNNoise running in ScriptProcessor (main thread)');
+  return node;
 }
@@ -0,0 +1,137 @@
+/**
+ * AudioWorklet processor for VAD-gated RNNoise.
+ *
+ * Runs on the audio rendering thread, so main-thread work (level meters,
+ * Svelte re-renders) can no longer starve it. Render quanta of 128 samples are
+ * collected into 480-sample RNNoise frames; each frame is denoised and/or
+ * gated on its VAD score (see VadNoiseSettings) and queued for output, adding
+ * one frame (10ms) of latency plus the gate's lookahead.
+ *
+ * Loaded with `audioWorklet.addModule()` (see vad-noise.ts). The WASM binary is
+ * fetched by the main thread and passed in `processorOptions`, since worklets
+ * can't fetch. VAD scores are posted back about 20 times a second for the UI.
+ */
+
+import createRNNWasmModule from '@jitsi/rnnoise-wasm/dist/rnnoise.js';
+import {
+  RNNOISE_SAMPLE_LENGTH,
+  VAD_PROCESSOR_NAME,
+  VadFrameProcessor,
+  type RnnoiseModule,
+  type VadNoiseSettings,
+  type VadProcessorOptions,
+  type VadWorkletCommand,
+  type VadWorkletEvent
+} from './vad-gate';
+
+// AudioWorkletGlobalScope isn't part of the DOM lib
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor();
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: { processorOptions: VadProcessorOptions }) => AudioWorkletProcessor
+): void;
+
+// Post scores every N frames (~50ms) rather than every 10ms frame
+const SCORE_INTERVAL_FRAMES = 5;
+// Output queue: a few frames of slack over the 128-sample render quantum
+const OUTPUT_BUFFER_LENGTH = RNNOISE_SAMPLE_LENGTH * 4;
+
+class VadNoiseProcessor extends AudioWorkletProcessor {
+  private processor: VadFrameProcessor | null = null;
+  private settings: VadNoiseSettings;
+  private frame = new Float32Array(RNNOISE_SAMPLE_LENGTH);
+  private gated = new Float32Array(RNNOISE_SAMPLE_LENGTH);
+  private frameLength = 0;
+  private output = new Float32Array(OUTPUT_BUFFER_LENGTH);
+  private outputRead = 0;
+  private outputWrite = 0;
+  private outputAvailable = 0;
+  private scores = new Float32Array(SCORE_INTERVAL_FRAMES);
+  private framesSinceScore = 0;
+  private stopped = false;
+
+  constructor(options: { processorOptions: VadProcessorOptions }) {
+    super();
+    const { wasmBinary, settings } = options.processorOptions;
+    this.settings = { ...settings };
+
+    this.port.onmessage = (event: MessageEvent<VadWorkletCommand>) => {
+      const command = event.data;
+      if (command.type === 'configure') {
+        // Kept here too, for a configure that arrives before the WASM is ready
+        this.settings = { ...this.settings, ...command.settings };
+        this.processor?.configure(this.settings);
+      } else if (command.type === 'stop') {
+        this.stopped = true;
+      }
+    };
+
+    createRNNWasmModule({ wasmBinary })
+      .then(module => {
+        this.processor = new VadFrameProcessor(module as RnnoiseModule, sampleRate, this.settings);
+        this.post({ type: 'ready' });
+      })
+      .catch(error => {
+        this.post({ type: 'error', message: String(error) });
+      });
+  }
+
+  private post(event: VadWorkletEvent) {
+    this.port.postMessage(event);
+  }
+
+  private processFrame(processor: VadFrameProcessor) {
+    const score = processor.process(this.frame, this.gated);
+    for (let i = 0; i < RNNOISE_SAMPLE_LENGTH; i++) {
+      this.output[this.outputWrite] = this.gated[i];
+      this.outputWrite = (this.outputWrite + 1) % OUTPUT_BUFFER_LENGTH;
+    }
+    this.outputAvailable = Math.min(this.outputAvailable + RNNOISE_SAMPLE_LENGTH, OUTPUT_BUFFER_LENGTH);
+
+    this.scores[this.framesSinceScore++] = score;
+    if (this.framesSinceScore >= SCORE_INTERVAL_FRAMES) {
+      this.framesSinceScore = 0;
+      const { raw, smoothed } = processor.gate;
+      this.post({ type: 'vad', raw, smoothed, frames: this.scores.slice() });
+    }
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    if (this.stopped) {
+      this.processor?.destroy();
+      this.processor = null;
+      return false;
+    }
+
+    const input = inputs[0]?.[0];
+    const output = outputs[0][0];
+
+    if (input && this.processor) {
+      for (let i = 0; i < input.length; i++) {
+        this.frame[this.frameLength++] = input[i];
+        if (this.frameLength === RNNOISE_SAMPLE_LENGTH) {
+          this.processFrame(this.processor);
+          this.frameLength = 0;
+        }
+      }
+    }
+
+    if (this.outputAvailable >= output.length) {
+      for (let i = 0; i < output.length; i++) {
+        output[i] = this.output[this.outputRead];
+        this.outputRead = (this.outputRead + 1) % OUTPUT_BUFFER_LENGTH;
+      }
+      this.outputAvailable -= output.length;
+    } else {
+      // Still filling the first frame (or no input): silence
+      output.fill(0);
+    }
+    return true;
+  }
+}
+
+registerProcessor(VAD_PROCESSOR_NAME, VadNoiseProcessor);
@@ -0,0 +1,100 @@
+// Bundling generated files into one download: browsers block a page's
+// automatic downloads after the first, so several files go out as a zip.
+// Entries are stored uncompressed - recordings are compressed media already.
+// No Zip64, so the archive must stay under 4 GiB.
+
+export interface ZipEntry {
+  name: string;
+  blob: Blob;
+}
+
+const MAX_ZIP32 = 0xffffffff;
+const UTF8_NAMES = 0x0800; // General purpose flag: names are UTF-8
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time and date, as zip headers store them (local time, 2s resolution)
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Build a zip archive of the given files.
+ */
+export async function createZip(entries: ZipEntry[], modified = new Date()): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const parts: BlobPart[] = [];
+  const central: ArrayBuffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const size = entry.blob.size;
+    const crc = crc32(new Uint8Array(await entry.blob.arrayBuffer()));
+    if (offset + 30 + name.length + size > MAX_ZIP32) {
+      throw new Error('Files too large for a zip archive');
+    }
+
+    const local = new DataView(new ArrayBuffer(30 + name.length));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);          // Version needed: 2.0
+    local.setUint16(6, UTF8_NAMES, true);
+    local.setUint16(8, 0, true);           // Stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);       // Compressed size
+    local.setUint32(22, size, true);       // Uncompressed size
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);          // No extra field
+    new Uint8Array(local.buffer).set(name, 30);
+    parts.push(local.buffer, entry.blob);
+
+    const header = new DataView(new ArrayBuffer(46 + name.length));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);         // Made by: 2.0
+    header.setUint16(6, 20, true);
+    header.setUint16(8, UTF8_NAMES, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, size, true);
+    header.setUint32(24, size, true);
+    header.setUint16(28, name.length, true);
+    // Extra field, comment, disk number and attributes stay zero
+    header.setUint32(42, offset, true);
+    new Uint8Array(header.buffer).set(name, 46);
+    central.push(header.buffer);
+
+    offset += local.byteLength + size;
+  }
+
+  const centralSize = central.reduce((sum, header) => sum + header.byteLength, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);  // Entries on this disk
+  end.setUint16(10, entries.length, true); // Entries in total
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);         // Where the central directory starts
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+}
@@ -2,3 +2,8 @@ declare module '@jitsi/rnnoise-wasm' {
   export function createRNNWasmModule(): Promise<unknown>;
   export function createRNNWasmModuleSync(): unknown;
 }
+
+// The async loader on its own, without the inlined-WASM sync build (used by the VAD worklet)
+declare module '@jitsi/rnnoise-wasm/dist/rnnoise.js' {
+  export default function createRNNWasmModule(options?: { wasmBinary?: ArrayBuffer }): Promise<unknown>;
+}
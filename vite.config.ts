@@ -1,10 +1,17 @@
 import { sveltekit } from '@sveltejs/kit/vite';
-import { defineConfig } from 'vite';
+import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
 	plugins: [sveltekit()],
 	optimizeDeps: {
 		exclude: ['@jitsi/rnnoise-wasm']
 	},
-	assetsInclude: ['**/*.wasm']
+	assetsInclude: ['**/*.wasm'],
+	// The VAD AudioWorklet is bundled as a worker; worklets only load ES modules
+	worker: {
+		format: 'es'
+	},
+	test: {
+		include: ['party/**/*.test.ts', 'src/**/*.test.ts']
+	}
 });